@@ -5,7 +5,8 @@
  * PURPOSE: Inject identity, core skill, and session context at session start.
  * TRIGGER: SessionStart
  * INPUT:   { session_id }
- * OUTPUT:  <system-reminder> with identity + CORE skill content
+ * OUTPUT:  <system-reminder> with identity + CORE skill + CLAUDE.md, trimmed to
+ *          settings.json contextBudget["context-loader"]
  * EXIT:    0 (success) or 1 (non-critical failure)
  */
 
@@ -15,6 +16,7 @@ import { readStdin } from './lib/stdin.ts';
 import { getFrameworkDir } from './lib/paths.ts';
 import { getIdentityName, getPrincipalName } from './lib/identity.ts';
 import { log } from './lib/logger.ts';
+import { loadContextBudget, fitToBudget, budgetNote } from './lib/context-budget.ts';
 
 interface HookInput {
   session_id: string;
@@ -36,26 +38,34 @@ async function main(): Promise<void> {
   const userName = getPrincipalName();
   parts.push(`You are ${aiName}, ${userName}'s AI assistant.`);
 
-  // Load CORE skill if it exists
-  const corePath = join(getFrameworkDir(), 'skills', 'CORE', 'SKILL.md');
-  if (existsSync(corePath)) {
+  // CORE skill, then CLAUDE.md, each trimmed to what is left of the budget
+  const budget = loadContextBudget('context-loader');
+  let remaining = budget.maxChars;
+  const documents = [
+    { title: 'CORE Skill', path: 'skills/CORE/SKILL.md', what: 'CORE skill' },
+    { title: 'Project Instructions', path: 'CLAUDE.md', what: 'CLAUDE.md' },
+  ];
+
+  for (const doc of documents) {
+    const fullPath = join(getFrameworkDir(), doc.path);
+    if (!existsSync(fullPath)) continue;
+
+    let content: string;
     try {
-      const content = sanitizeContent(readFileSync(corePath, 'utf-8'));
-      parts.push(`--- CORE Skill ---\n${content}`);
+      content = sanitizeContent(readFileSync(fullPath, 'utf-8'));
     } catch (e) {
-      log('context-loader', `Failed to load CORE skill: ${e}`);
+      log('context-loader', `Failed to load ${doc.what}: ${e}`);
+      continue;
     }
-  }
 
-  // Load CLAUDE.md if it exists
-  const claudePath = join(getFrameworkDir(), 'CLAUDE.md');
-  if (existsSync(claudePath)) {
-    try {
-      const content = sanitizeContent(readFileSync(claudePath, 'utf-8'));
-      parts.push(`--- Project Instructions ---\n${content}`);
-    } catch (e) {
-      log('context-loader', `Failed to load CLAUDE.md: ${e}`);
+    const fitted = fitToBudget(content, remaining, budget.sections);
+    if (!fitted) {
+      parts.push(`[Context budget: ${doc.what} not loaded — read ${doc.path}]`);
+      continue;
     }
+    const note = fitted.dropped.length ? `\n${budgetNote(fitted.dropped, doc.path)}` : '';
+    parts.push(`--- ${doc.title} ---\n${fitted.text}${note}`);
+    remaining -= fitted.text.length;
   }
 
   if (parts.length > 0) {
@@ -0,0 +1,35 @@
+/**
+ * require-ack.ts — Verify acknowledgment of `require` skills (Stop handler)
+ *
+ * After each response, looks for the marker of every pending requirement
+ * (e.g. "[ack: Deploy]", see lib/acknowledgment.ts) in the latest assistant
+ * message. Acknowledged requirements are cleared; ignored ones count a miss,
+ * which skill-eval escalates on the next prompt. Outcomes are tallied per
+ * skill in the session state's `compliance` record.
+ */
+
+import { loadSessionState, saveSessionState, recordCompliance } from '../lib/session-state.ts';
+import { readTranscriptTail, lastAssistantText } from '../lib/transcript.ts';
+import { loadSkillRules } from '../lib/skill-rules.ts';
+import { isAcknowledged } from '../lib/acknowledgment.ts';
+
+interface StopInput {
+  session_id: string;
+  transcript_path?: string;
+}
+
+export default async function requireAck(input: StopInput): Promise<void> {
+  if (!input.transcript_path) return;
+
+  const state = loadSessionState(input.session_id);
+  const pending = Object.keys(state.pending ?? {});
+  if (pending.length === 0) return;
+
+  const response = lastAssistantText(readTranscriptTail(input.transcript_path));
+  const settings = loadSkillRules('require-ack')?.settings.acknowledgment;
+
+  for (const skill of pending) {
+    recordCompliance(state, skill, isAcknowledged(response, skill, settings));
+  }
+  saveSessionState(input.session_id, state);
+}
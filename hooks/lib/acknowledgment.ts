@@ -0,0 +1,27 @@
+/**
+ * Acknowledgment of `require` skills. A require activation asks the assistant
+ * to include a marker such as "[ack: Deploy]" in its response. The Stop handler
+ * (hooks/handlers/require-ack.ts) checks the response and updates the session's
+ * pending requirements; skill-eval escalates the ones that were ignored, and
+ * security-validator can block guarded tools until the marker appears.
+ */
+
+export interface AcknowledgmentSettings {
+  /** Marker template; {skill} is replaced with the skill name */
+  marker?: string;
+  /** Repeat ignored requirements, escalated, on the next prompt (default true) */
+  escalate?: boolean;
+  /** Guard rules of a pending skill block until the marker appears (default false) */
+  blockGuards?: boolean;
+}
+
+export const DEFAULT_MARKER = '[ack: {skill}]';
+
+export function ackMarker(skill: string, settings: AcknowledgmentSettings = {}): string {
+  return (settings.marker ?? DEFAULT_MARKER).replaceAll('{skill}', skill);
+}
+
+/** Case-insensitive, so "[ACK: deploy]" counts. */
+export function isAcknowledged(response: string, skill: string, settings: AcknowledgmentSettings = {}): boolean {
+  return response.toLowerCase().includes(ackMarker(skill, settings).toLowerCase());
+}
@@ -0,0 +1,128 @@
+/**
+ * Per-hook context budget for injected markdown (SKILL.md, workflows, CLAUDE.md).
+ * Budgets live in settings.json `contextBudget`, keyed by hook name:
+ *
+ *   "contextBudget": { "skill-eval": { "maxTokens": 6000, "sections": ["Workflow Routing", "Examples"] } }
+ *
+ * Over budget, a document keeps its frontmatter and preamble and then whole
+ * `## ` sections in priority order; the caller reports what was dropped.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { getFrameworkDir } from './paths.ts';
+
+interface BudgetConfig {
+  maxChars?: number;
+  /** Estimated at 4 characters per token */
+  maxTokens?: number;
+  /** Section titles kept first, in order; others follow in document order */
+  sections?: string[];
+}
+
+export interface ContextBudget {
+  maxChars: number;
+  sections: string[];
+}
+
+export interface FittedDocument {
+  text: string;
+  /** Titles of the sections left out */
+  dropped: string[];
+}
+
+const CHARS_PER_TOKEN = 4;
+export const DEFAULT_SECTION_PRIORITY = ['Workflow Routing', 'Examples'];
+
+/**
+ * The budget configured for `hook`, or an unlimited one when settings.json
+ * has none (or can't be read).
+ */
+export function loadContextBudget(hook: string): ContextBudget {
+  let config: BudgetConfig | undefined;
+  try {
+    const settings = JSON.parse(readFileSync(join(getFrameworkDir(), 'settings.json'), 'utf-8'));
+    config = settings.contextBudget?.[hook];
+  } catch { /* no settings.json — unlimited */ }
+
+  const limits = [
+    config?.maxChars,
+    config?.maxTokens !== undefined ? config.maxTokens * CHARS_PER_TOKEN : undefined,
+  ].filter((n): n is number => typeof n === 'number' && n >= 0);
+
+  return {
+    maxChars: limits.length ? Math.min(...limits) : Infinity,
+    sections: config?.sections ?? DEFAULT_SECTION_PRIORITY,
+  };
+}
+
+interface Section {
+  title: string;
+  text: string;
+  index: number;
+  required: boolean;
+}
+
+function splitSections(markdown: string): Section[] {
+  const sections: Section[] = [];
+  let rest = markdown;
+
+  const frontmatter = /^---\n[\s\S]*?\n---\n?/.exec(markdown);
+  if (frontmatter) {
+    sections.push({ title: 'frontmatter', text: frontmatter[0], index: 0, required: true });
+    rest = markdown.slice(frontmatter[0].length);
+  }
+
+  // Split before each level-2 heading; ### subsections stay with their parent
+  const chunks = rest.split(/^(?=## )/m);
+  chunks.forEach((text, i) => {
+    if (!text) return;
+    const isPreamble = i === 0 && !text.startsWith('## ');
+    const title = isPreamble ? 'preamble' : text.split('\n', 1)[0].replace(/^##\s*/, '').trim();
+    sections.push({ title, text, index: sections.length, required: isPreamble });
+  });
+  return sections;
+}
+
+/**
+ * Trim `markdown` to at most `maxChars` by dropping whole sections, lowest
+ * priority first. Returns null when not even one section fits next to the
+ * frontmatter and preamble — a title alone is not worth injecting.
+ */
+export function fitToBudget(markdown: string, maxChars: number, priority: string[]): FittedDocument | null {
+  if (markdown.length <= maxChars) return { text: markdown, dropped: [] };
+
+  const sections = splitSections(markdown);
+  let used = sections.filter(s => s.required).reduce((n, s) => n + s.text.length, 0);
+  if (used > maxChars) return null;
+
+  const wanted = priority.map(p => p.toLowerCase());
+  const rank = (s: Section) => {
+    const i = wanted.indexOf(s.title.toLowerCase());
+    return i === -1 ? wanted.length : i;
+  };
+
+  const kept = new Set<Section>();
+  const dropped: string[] = [];
+  const optional = sections.filter(s => !s.required).sort((a, b) => rank(a) - rank(b) || a.index - b.index);
+  for (const s of optional) {
+    if (used + s.text.length <= maxChars) {
+      kept.add(s);
+      used += s.text.length;
+    } else {
+      dropped.push(s.title);
+    }
+  }
+
+  if (kept.size === 0 && optional.length > 0) return null;
+
+  const text = sections.filter(s => s.required || kept.has(s)).map(s => s.text).join('');
+  return { text, dropped };
+}
+
+/**
+ * One-line note for a trimmed document, pointing at the full file.
+ */
+export function budgetNote(dropped: string[], path: string): string {
+  return `[Context budget: omitted ${dropped.join(', ')} — read ${path} for the full text]`;
+}
@@ -0,0 +1,83 @@
+/**
+ * Human-readable score breakdown for skill-eval --explain.
+ * Shows, per rule, what each dimension matched, the raw/max/normalized scores,
+ * the threshold, the priority-adjusted finalScore, and why it did or didn't fire.
+ */
+
+import type { Resolution, Rule, RuleEvaluation, SkillRules } from './skill-rules.ts';
+
+function fmt(n: number): string {
+  return Number.isInteger(n) ? String(n) : n.toFixed(2);
+}
+
+function formatDimension(d: RuleEvaluation['dimensions'][number]): string {
+  const name = d.name.padEnd(9);
+  const ratio = `${fmt(d.count)}/${fmt(d.total)}`.padEnd(9);
+  const score = `${fmt(d.count * d.weight)}/${fmt(d.total * d.weight)}`.padEnd(10);
+  const matched = d.matched.length ? `matched: ${d.matched.join(', ')}` : 'no match';
+  return `    ${name} ${ratio} x${fmt(d.weight)} = ${score} ${matched}`;
+}
+
+function formatRule(rule: Rule, verdict: string, e: RuleEvaluation | undefined): string[] {
+  const lines = [`  ${rule.skill} (${rule.type ?? 'proactive'}, ${rule.enforcement}, priority ${rule.priority ?? 5}) — ${verdict}`];
+  if (!e) return lines;
+
+  for (const d of e.dimensions) lines.push(formatDimension(d));
+  if (e.negative) {
+    const penalty = e.negative.penalty > 0 ? `-${fmt(e.negative.penalty)}` : 'veto';
+    lines.push(`    ${'exclude'.padEnd(9)} ${penalty.padEnd(24)} matched: ${e.negative.matched.join(', ')}`);
+  }
+  if (e.sticky) {
+    lines.push(`    ${'sticky'.padEnd(9)} ${`+${fmt(e.sticky)}`.padEnd(24)} selected on the previous prompt`);
+  }
+  if (e.dimensions.length > 0) {
+    const sticky = e.sticky ? ` + sticky ${fmt(e.sticky)}` : '';
+    lines.push(
+      `    raw ${fmt(e.rawScore)} / max ${fmt(e.maxScore)}${sticky} = ${e.normalizedScore.toFixed(1)}` +
+      ` (threshold ${e.threshold}) -> finalScore ${e.finalScore.toFixed(1)}`,
+    );
+  }
+  return lines;
+}
+
+/**
+ * Render evaluations as a report. Surviving matches (after implies, conflicts
+ * and groups) are marked SELECTED or CUT against settings.maxSuggestions.
+ */
+export function formatExplanation(
+  prompt: string,
+  evaluations: RuleEvaluation[],
+  resolution: Resolution,
+  settings: SkillRules['settings'],
+): string {
+  const lines: string[] = [
+    `skill-eval explain: "${prompt}"`,
+    `  maxSuggestions: ${settings.maxSuggestions} | matcher: ${settings.matcher ?? 'exact'}`,
+    '',
+  ];
+  const max = settings.maxSuggestions;
+  const shown = new Set<Rule>();
+  const evaluationOf = (rule: Rule) => evaluations.find(e => e.rule === rule);
+
+  const add = (rule: Rule, verdict: string): void => {
+    shown.add(rule);
+    lines.push(...formatRule(rule, verdict, evaluationOf(rule)), '');
+  };
+
+  resolution.matches.forEach((m, i) => {
+    const rank = i + 1;
+    let verdict = rank <= max ? `SELECTED #${rank}` : `CUT: rank ${rank} exceeds maxSuggestions ${max}`;
+    if (m.impliedBy) verdict += ` (implied by ${m.impliedBy})`;
+    add(m.rule, verdict);
+  });
+  for (const d of resolution.dropped) add(d.match.rule, `DROPPED: ${d.reason}`);
+  for (const e of evaluations) {
+    if (!shown.has(e.rule)) add(e.rule, `EXCLUDED: ${e.excluded ?? 'not selected'}`);
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+export function formatPromptExclusion(prompt: string, reason: string): string {
+  return `skill-eval explain: "${prompt}"\n  Prompt excluded by ${reason} — no rules evaluated.`;
+}
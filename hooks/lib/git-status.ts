@@ -0,0 +1,38 @@
+/**
+ * Working-tree files from the local git repo: staged, modified, deleted and
+ * untracked (not ignored). Lets directory and file-type triggers fire when the
+ * session runs from the repo root and the prompt names no paths.
+ */
+
+import { spawnSync } from 'child_process';
+
+// skill-eval has a ~100ms budget per prompt; a slow repo yields no files
+const GIT_TIMEOUT_MS = 50;
+
+/**
+ * Changed files relative to the repository root, in `git status` order.
+ * Returns [] outside a repo, without git, or when git doesn't answer in time.
+ * Untracked directories are listed once, with a trailing slash.
+ */
+export function changedFiles(cwd: string, timeoutMs: number = GIT_TIMEOUT_MS): string[] {
+  const result = spawnSync('git', ['status', '--porcelain', '-z', '--untracked-files=normal'], {
+    cwd,
+    encoding: 'utf-8',
+    timeout: timeoutMs,
+    stdio: ['ignore', 'pipe', 'ignore'],
+  });
+  if (result.status !== 0 || typeof result.stdout !== 'string') return [];
+
+  const files: string[] = [];
+  const fields = result.stdout.split('\0');
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    if (field.length < 4) continue;
+    const status = field.slice(0, 2);
+    const path = field.slice(3);
+    if (!files.includes(path)) files.push(path);
+    // With -z a rename or copy is followed by its source path
+    if (status[0] === 'R' || status[0] === 'C') i++;
+  }
+  return files;
+}
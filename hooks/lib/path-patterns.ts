@@ -0,0 +1,119 @@
+/**
+ * Gitignore-style path patterns for security policy path rules.
+ *
+ *   ~/.ssh                 absolute (~ or /): the path and everything under it
+ *   secrets, .env*         no slash: a file or directory with that name at any depth
+ *                          (a leading `**` segment says the same explicitly)
+ *   config/deploy/*.pem    other relative patterns: anchored at the project root and at home
+ *   !.env.example          negation: a later `!` pattern un-matches what earlier ones matched
+ *
+ * `*` and `?` stay within one path segment, `**` spans segments, `[abc]` /
+ * `[!abc]` are character classes. A pattern that matches a directory also
+ * matches everything under it. Within a list the last matching pattern wins,
+ * as in .gitignore.
+ */
+
+import { resolve, relative, isAbsolute } from 'path';
+import { expandPath, realPath, isWithin } from './paths.ts';
+import { escapeRegex } from './text-match.ts';
+
+export interface PathPattern {
+  /** As written, including a leading `!` */
+  source: string;
+  negated: boolean;
+  anchor: 'absolute' | 'relative' | 'anywhere';
+  /** Absolute patterns: also the form with the literal prefix's symlinks followed */
+  regexes: RegExp[];
+  /** Absolute patterns without glob characters: the resolved path and its real path */
+  literals?: string[];
+}
+
+const GLOB_CHARS = /[*?[]/;
+
+function globToRegex(glob: string): string {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (glob.startsWith('**/', i)) {
+      out += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      out += '.*';
+      i++;
+    } else if (c === '*') {
+      out += '[^/]*';
+    } else if (c === '?') {
+      out += '[^/]';
+    } else if (c === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        out += '\\[';
+        continue;
+      }
+      const body = glob.slice(i + 1, end);
+      out += `[${body.startsWith('!') ? `^${body.slice(1)}` : body.replace(/^\^/, '\\^')}]`;
+      i = end;
+    } else {
+      out += escapeRegex(c);
+    }
+  }
+  return out;
+}
+
+// A match on a directory covers its contents
+const compile = (prefix: string, glob: string) => new RegExp(`${prefix}${globToRegex(glob)}(?:/|$)`);
+
+/**
+ * Compile one pattern. Absolute patterns resolve ~ and $HOME; their literal
+ * leading segments are also resolved through symlinks so the target is
+ * recognized under its real path.
+ */
+export function compilePathPattern(source: string): PathPattern {
+  const negated = source.startsWith('!');
+  let body = (negated ? source.slice(1) : source).replace(/\/+$/, '');
+  const expanded = expandPath(body);
+
+  if (isAbsolute(expanded)) {
+    const segments = resolve(expanded).split('/');
+    const firstGlob = segments.findIndex(s => GLOB_CHARS.test(s));
+    const prefix = (firstGlob === -1 ? segments : segments.slice(0, firstGlob)).join('/') || '/';
+    const rest = firstGlob === -1 ? '' : segments.slice(firstGlob).join('/');
+    const withRest = (base: string) => (rest ? `${base.replace(/\/$/, '')}/${rest}` : base);
+
+    const real = realPath(prefix);
+    const forms = real === prefix ? [withRest(prefix)] : [withRest(prefix), withRest(real)];
+    return {
+      source, negated, anchor: 'absolute',
+      regexes: forms.map(f => compile('^', f)),
+      literals: firstGlob === -1 ? [...new Set([prefix, real])] : undefined,
+    };
+  }
+
+  body = body.replace(/^\.\//, '');
+  const floating = body.startsWith('**/') || !body.includes('/');
+  return {
+    source, negated,
+    anchor: floating ? 'anywhere' : 'relative',
+    regexes: [floating ? compile('(?:^|/)', body.replace(/^(\*\*\/)+/, '')) : compile('^', body)],
+  };
+}
+
+function patternMatches(pattern: PathPattern, path: string, bases: string[]): boolean {
+  if (pattern.anchor !== 'relative') return pattern.regexes.some(r => r.test(path));
+  return bases.some(base => isWithin(path, base) && pattern.regexes[0].test(relative(base, path)));
+}
+
+/**
+ * Whether any of the absolute `paths` (e.g. a path and its real path) is
+ * matched by the pattern list: the last pattern that matches decides.
+ * Relative patterns are tried against each of `bases`.
+ */
+export function matchesPathPatterns(patterns: PathPattern[], paths: string[], bases: string[]): boolean {
+  return paths.some(path => {
+    let matched = false;
+    for (const pattern of patterns) {
+      if (patternMatches(pattern, path, bases)) matched = !pattern.negated;
+    }
+    return matched;
+  });
+}
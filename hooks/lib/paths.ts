@@ -1,10 +1,12 @@
 /**
  * Path resolution utilities.
- * Handles $HOME, ~, and FRAMEWORK_DIR expansion.
+ * Handles $HOME, ~, and FRAMEWORK_DIR expansion, symlink resolution and
+ * segment-aware containment.
  */
 
+import { realpathSync } from 'fs';
 import { homedir } from 'os';
-import { join } from 'path';
+import { join, resolve, dirname, basename, sep } from 'path';
 
 const HOME = homedir();
 
@@ -21,6 +23,36 @@ export function getFrameworkDir(): string {
   return join(HOME, '.claude');
 }
 
+/** The user-global Claude dir: CLAUDE_CONFIG_DIR, else ~/.claude */
+export function getGlobalDir(): string {
+  const env = process.env.CLAUDE_CONFIG_DIR;
+  if (env) return expandPath(env);
+  return join(HOME, '.claude');
+}
+
 export function frameworkPath(...segments: string[]): string {
   return join(getFrameworkDir(), ...segments);
 }
+
+/**
+ * Absolute path with symlinks followed. A path that doesn't exist yet (a file
+ * about to be written) resolves through its nearest existing parent.
+ */
+export function realPath(path: string): string {
+  const absolute = resolve(expandPath(path));
+  const missing: string[] = [];
+  for (let current = absolute; ; current = dirname(current)) {
+    try {
+      return join(realpathSync(current), ...missing);
+    } catch {
+      if (dirname(current) === current) return absolute;
+      missing.unshift(basename(current));
+    }
+  }
+}
+
+/** True when `path` is `dir` or inside it, compared by whole path segments. */
+export function isWithin(path: string, dir: string): boolean {
+  if (path === dir) return true;
+  return path.startsWith(dir.endsWith(sep) ? dir : dir + sep);
+}
@@ -0,0 +1,67 @@
+/**
+ * Bounded file read cache.
+ * Hooks that inspect file contents read through here so a single evaluation
+ * never reads more than a fixed number of files or bytes, and never reads
+ * the same file twice.
+ */
+
+import { openSync, readSync, closeSync, statSync } from 'fs';
+
+export interface ReadCacheLimits {
+  maxFiles: number;
+  maxBytesPerFile: number;
+}
+
+export const DEFAULT_READ_LIMITS: ReadCacheLimits = {
+  maxFiles: 8,
+  maxBytesPerFile: 64 * 1024,
+};
+
+const cache = new Map<string, string | null>();
+let filesRead = 0;
+let limits: ReadCacheLimits = DEFAULT_READ_LIMITS;
+
+export function configureReadCache(overrides: Partial<ReadCacheLimits> = {}): void {
+  limits = { ...DEFAULT_READ_LIMITS, ...overrides };
+}
+
+function readHead(path: string, maxBytes: number): string | null {
+  const stat = statSync(path);
+  if (!stat.isFile()) return null;
+
+  const size = Math.min(stat.size, maxBytes);
+  const buf = Buffer.alloc(size);
+  const fd = openSync(path, 'r');
+  try {
+    readSync(fd, buf, 0, size, 0);
+  } finally {
+    closeSync(fd);
+  }
+
+  // Skip binary files — a NUL byte in the head is a reliable enough signal
+  if (buf.includes(0)) return null;
+  return buf.toString('utf-8');
+}
+
+/**
+ * Returns the first `maxBytesPerFile` bytes of a text file, or null if the
+ * file is missing, binary, unreadable, or the cache is already full.
+ */
+export function readCached(path: string): string | null {
+  if (cache.has(path)) return cache.get(path)!;
+  if (filesRead >= limits.maxFiles) return null;
+
+  let content: string | null = null;
+  try {
+    content = readHead(path, limits.maxBytesPerFile);
+  } catch { /* missing or unreadable — cache the miss */ }
+
+  cache.set(path, content);
+  if (content !== null) filesRead++;
+  return content;
+}
+
+export function clearReadCache(): void {
+  cache.clear();
+  filesRead = 0;
+}
@@ -0,0 +1,126 @@
+/**
+ * Compiled rule cache. Merging the rule layers and checking every regex they
+ * contain happens once per change to a layer file, not once per prompt: the
+ * merged rule set is written to memory/cache/compiled-rules.json, keyed by each
+ * layer file's mtime and size. Invalid patterns are logged when the cache is
+ * built and kept in it (`bun run rules` lists them); scoring skips them.
+ */
+
+import { readFileSync, writeFileSync, statSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { frameworkPath } from './paths.ts';
+import { log } from './logger.ts';
+import { loadLayeredRules, ruleLayerPaths } from './rule-layers.ts';
+import type { SkillRules } from './skill-rules.ts';
+
+export interface InvalidPattern {
+  /** Where the pattern lives, e.g. `rule Deploy triggers.patterns` */
+  location: string;
+  pattern: string;
+  error: string;
+}
+
+export interface CompiledRules {
+  version: number;
+  /** Layer file path -> "mtimeMs:size", or "missing" */
+  files: Record<string, string>;
+  rules: SkillRules;
+  invalid: InvalidPattern[];
+}
+
+const CACHE_VERSION = 1;
+
+function cachePath(): string {
+  return frameworkPath('memory', 'cache', 'compiled-rules.json');
+}
+
+function fingerprints(): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const { path } of ruleLayerPaths()) {
+    try {
+      const stat = statSync(path);
+      files[path] = `${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      files[path] = 'missing';
+    }
+  }
+  return files;
+}
+
+function sameFiles(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every(k => a[k] === b[k]);
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+/**
+ * Every pattern in the rule set that is not a valid regex.
+ */
+export function findInvalidPatterns(rules: SkillRules): InvalidPattern[] {
+  const invalid: InvalidPattern[] = [];
+  const check = (location: string, patterns: string[] | undefined) => {
+    for (const pattern of patterns ?? []) {
+      try {
+        new RegExp(pattern, 'i');
+      } catch (e) {
+        invalid.push({ location, pattern, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+  };
+
+  for (const rule of rules.rules) {
+    check(`rule ${rule.skill} triggers.patterns`, rule.triggers.patterns);
+    check(`rule ${rule.skill} triggers.contentPatterns`, rule.triggers.contentPatterns);
+    check(`rule ${rule.skill} triggers.exclude.patterns`, rule.triggers.exclude?.patterns);
+  }
+  for (const [name, def] of Object.entries(rules.intents ?? {})) {
+    check(`intent ${name} patterns`, def.patterns);
+  }
+  check('exclusions.patterns', rules.exclusions.patterns);
+  return invalid;
+}
+
+// ============================================================
+// Loading
+// ============================================================
+
+/**
+ * Merge and validate the rule layers, bypassing the cache. Invalid patterns
+ * are logged here, so they are reported once per change rather than per prompt.
+ */
+export function compileRules(hook: string, files: Record<string, string> = fingerprints()): CompiledRules | null {
+  const layered = loadLayeredRules(hook);
+  if (!layered) return null;
+
+  const invalid = findInvalidPatterns(layered.rules);
+  for (const p of invalid) {
+    log(hook, `Invalid pattern in ${p.location}: ${p.pattern} (${p.error}) — it never matches`);
+  }
+  return { version: CACHE_VERSION, files, rules: layered.rules, invalid };
+}
+
+/**
+ * The compiled rule set, from the cache when no layer file changed since it
+ * was written. Returns null (and logs) when no rule layer can be loaded.
+ */
+export function loadCompiledRules(hook: string): CompiledRules | null {
+  const files = fingerprints();
+  const path = cachePath();
+
+  try {
+    const cached: CompiledRules = JSON.parse(readFileSync(path, 'utf-8'));
+    if (cached.version === CACHE_VERSION && sameFiles(cached.files, files)) return cached;
+  } catch { /* missing or corrupt — rebuild */ }
+
+  const compiled = compileRules(hook, files);
+  if (!compiled) return null;
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(compiled));
+  } catch { /* cache is an optimization */ }
+  return compiled;
+}
@@ -0,0 +1,272 @@
+/**
+ * Layered skill rules. Up to three files are merged, lowest precedence first:
+ *
+ *   global   ~/.claude/skills/skill-rules.json               shared framework (CLAUDE_CONFIG_DIR moves it)
+ *   project  <framework dir>/skills/skill-rules.json         this repo's rules
+ *   local    <framework dir>/skills/skill-rules.local.json   git-ignored, per machine
+ *
+ * Without a project dir the framework dir is ~/.claude, so global and project
+ * are the same file and it is read once.
+ *
+ * Rules are keyed by `skill` + `type`. A later layer's rule replaces the
+ * earlier one (`"merge": "override"`, the default), adds to it (`"extend"`:
+ * trigger, implies and conflictsWith lists are unioned, weights and other
+ * fields replace), or removes it (`"disable"`). Other sections merge by key:
+ * defaults.weights, intents, groups and settings take the later value,
+ * exclusions are unioned.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { getFrameworkDir, getGlobalDir } from './paths.ts';
+import { log } from './logger.ts';
+import type { Rule, RuleType, SkillRules, Triggers, ExcludeTriggers } from './skill-rules.ts';
+import type { InvalidPattern } from './rule-cache.ts';
+
+export type LayerName = 'global' | 'project' | 'local';
+export type MergeMode = 'override' | 'extend' | 'disable';
+
+export interface RuleLayer {
+  name: LayerName;
+  /** The layer's skills/ directory */
+  skillsDir: string;
+  path: string;
+  /** Parsed file; missing or unparseable layers are null */
+  content: Partial<SkillRules> | null;
+  error?: string;
+}
+
+export interface RuleOrigin {
+  skill: string;
+  type: RuleType;
+  /** Every layer that touched the rule, in merge order */
+  steps: { layer: LayerName; merge: MergeMode }[];
+  disabled: boolean;
+}
+
+export interface LayeredRules {
+  rules: SkillRules;
+  layers: RuleLayer[];
+  origins: RuleOrigin[];
+}
+
+const LOCAL_FILE = 'skill-rules.local.json';
+
+// ============================================================
+// Discovery
+// ============================================================
+
+/**
+ * The layer files for the current framework dir, lowest precedence first.
+ */
+export function ruleLayerPaths(): Pick<RuleLayer, 'name' | 'skillsDir' | 'path'>[] {
+  const globalSkills = join(getGlobalDir(), 'skills');
+  const projectSkills = join(getFrameworkDir(), 'skills');
+
+  const layers: Pick<RuleLayer, 'name' | 'skillsDir' | 'path'>[] = [];
+  if (globalSkills !== projectSkills) {
+    layers.push({ name: 'global', skillsDir: globalSkills, path: join(globalSkills, 'skill-rules.json') });
+  }
+  layers.push(
+    { name: 'project', skillsDir: projectSkills, path: join(projectSkills, 'skill-rules.json') },
+    { name: 'local', skillsDir: projectSkills, path: join(projectSkills, LOCAL_FILE) },
+  );
+  return layers;
+}
+
+function readLayer(layer: Pick<RuleLayer, 'name' | 'skillsDir' | 'path'>, hook: string): RuleLayer {
+  if (!existsSync(layer.path)) return { ...layer, content: null };
+  try {
+    return { ...layer, content: JSON.parse(readFileSync(layer.path, 'utf-8')) };
+  } catch (e) {
+    log(hook, `Failed to parse ${layer.path}: ${e}`);
+    return { ...layer, content: null, error: String(e) };
+  }
+}
+
+/** The layers' skills/ directories, lowest precedence first, each once */
+export function layerSkillDirs(): string[] {
+  return [...new Set(ruleLayerPaths().map(l => l.skillsDir))];
+}
+
+/**
+ * The directory holding a skill's SKILL.md, searching the highest-precedence
+ * layer first (project skills shadow global ones of the same name).
+ */
+export function findSkillDir(skill: string): string | null {
+  const dirs = layerSkillDirs().reverse();
+  for (const dir of dirs) {
+    if (existsSync(join(dir, skill, 'SKILL.md'))) return join(dir, skill);
+  }
+  return null;
+}
+
+// ============================================================
+// Merging
+// ============================================================
+
+function union<T>(a: T[] | undefined, b: T[] | undefined): T[] | undefined {
+  if (!b) return a;
+  return [...new Set([...(a ?? []), ...b])];
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+// One level deep: nested objects (settings.repeat, settings.content, …) merge by key
+function mergeShallow<T extends object>(base: T | undefined, over: Partial<T> | undefined): T | undefined {
+  if (!over) return base;
+  const result: Record<string, unknown> = { ...(base ?? {}) };
+  for (const [key, value] of Object.entries(over)) {
+    result[key] = isPlainObject(value) && isPlainObject(result[key])
+      ? { ...(result[key] as object), ...value }
+      : value;
+  }
+  return result as T;
+}
+
+function extendExclude(base: ExcludeTriggers | undefined, over: ExcludeTriggers): ExcludeTriggers {
+  return {
+    ...base,
+    keywords: union(base?.keywords, over.keywords),
+    patterns: union(base?.patterns, over.patterns),
+    intents: union(base?.intents, over.intents),
+    ...(over.penalty !== undefined ? { penalty: over.penalty } : {}),
+  };
+}
+
+function extendRule(base: Rule, over: Partial<Rule>): Rule {
+  const triggers: Triggers = { ...base.triggers };
+  for (const [key, value] of Object.entries(over.triggers ?? {}) as [keyof Triggers, unknown][]) {
+    if (key === 'exclude') {
+      triggers.exclude = extendExclude(base.triggers.exclude, value as ExcludeTriggers);
+    } else {
+      triggers[key] = union(base.triggers[key], value as string[]);
+    }
+  }
+
+  const { triggers: _t, weights, implies, conflictsWith, merge: _m, ...scalars } = over;
+  const result: Rule = { ...base, ...scalars, triggers };
+  if (weights) result.weights = { ...base.weights, ...weights };
+  if (implies) result.implies = union(base.implies, implies);
+  if (conflictsWith) result.conflictsWith = union(base.conflictsWith, conflictsWith);
+  return result;
+}
+
+function ruleKey(rule: Pick<Rule, 'skill' | 'type'>): string {
+  return `${rule.type ?? 'proactive'}:${rule.skill}`;
+}
+
+/**
+ * Merge parsed layers, lowest precedence first. Rules keep the position of
+ * their first appearance; rules new in a later layer are appended. Returns null
+ * when neither the global nor the project layer supplies a rule set — local
+ * overrides alone have nothing to apply to.
+ */
+export function mergeLayers(
+  layers: Pick<RuleLayer, 'name' | 'content'>[],
+  hook = 'skill-rules',
+): { rules: SkillRules; origins: RuleOrigin[] } | null {
+  const present = layers.filter(l => l.content);
+  if (!present.some(l => l.name !== 'local')) return null;
+
+  let merged: Partial<SkillRules> = {};
+  const byKey = new Map<string, Rule | null>();
+  const origins = new Map<string, RuleOrigin>();
+
+  for (const { name, content } of present) {
+    const { rules = [], defaults, intents, groups, exclusions, settings, ...rest } = content!;
+
+    merged = { ...merged, ...rest };
+    if (defaults) {
+      merged.defaults = {
+        ...merged.defaults,
+        ...defaults,
+        weights: { ...merged.defaults?.weights, ...defaults.weights },
+      } as SkillRules['defaults'];
+    }
+    if (intents) merged.intents = { ...merged.intents, ...intents };
+    if (groups) merged.groups = { ...merged.groups, ...groups };
+    merged.settings = mergeShallow(merged.settings, settings);
+    if (exclusions) {
+      merged.exclusions = {
+        prefixes: union(merged.exclusions?.prefixes, exclusions.prefixes) ?? [],
+        patterns: union(merged.exclusions?.patterns, exclusions.patterns) ?? [],
+      };
+    }
+
+    for (const entry of rules) {
+      const key = ruleKey(entry);
+      const mode: MergeMode = entry.merge ?? 'override';
+      const existing = byKey.get(key);
+
+      if (mode !== 'override' && !existing) {
+        log(hook, `${name} layer: cannot ${mode} ${entry.skill} (${entry.type ?? 'proactive'}) — no earlier rule, ignored`);
+        continue;
+      }
+
+      const origin = origins.get(key) ?? { skill: entry.skill, type: entry.type ?? 'proactive', steps: [], disabled: false };
+      origin.steps.push({ layer: name, merge: mode });
+      origin.disabled = mode === 'disable';
+      origins.set(key, origin);
+
+      if (mode === 'disable') {
+        byKey.set(key, null);
+      } else if (mode === 'extend') {
+        byKey.set(key, extendRule(existing!, entry));
+      } else {
+        const { merge: _m, ...rule } = entry;
+        byKey.set(key, rule);
+      }
+    }
+  }
+
+  merged.rules = [...byKey.values()].filter((r): r is Rule => r !== null);
+  merged.exclusions ??= { prefixes: [], patterns: [] };
+  return { rules: merged as SkillRules, origins: [...origins.values()] };
+}
+
+/**
+ * Read and merge every layer. Returns null (and logs) when no global or
+ * project skill-rules.json can be loaded.
+ */
+export function loadLayeredRules(hook: string): LayeredRules | null {
+  const layers = ruleLayerPaths().map(l => readLayer(l, hook));
+  const merged = mergeLayers(layers, hook);
+  if (!merged) {
+    log(hook, 'No skill-rules.json found, skipping');
+    return null;
+  }
+  return { ...merged, layers };
+}
+
+// ============================================================
+// Debug Output
+// ============================================================
+
+/**
+ * Layers, per-rule provenance, invalid patterns and the effective merged rule
+ * set as JSON.
+ */
+export function formatLayeredRules(layered: LayeredRules, invalid: InvalidPattern[] = []): string {
+  const lines = ['Skill rule layers (lowest precedence first):'];
+  for (const layer of layered.layers) {
+    const status = layer.error ? ` (parse error: ${layer.error})` : layer.content ? '' : ' (not found)';
+    lines.push(`  ${layer.name.padEnd(8)} ${layer.path}${status}`);
+  }
+
+  const describe = (o: RuleOrigin) =>
+    `  ${`${o.skill} (${o.type})`.padEnd(32)} ${o.steps.map(s => s.merge === 'override' ? s.layer : `${s.layer} (${s.merge})`).join(' -> ')}`;
+  const active = layered.origins.filter(o => !o.disabled);
+  const disabled = layered.origins.filter(o => o.disabled);
+
+  lines.push('', `Rules (${active.length}):`, ...active.map(describe));
+  if (disabled.length > 0) lines.push('', `Disabled (${disabled.length}):`, ...disabled.map(describe));
+  if (invalid.length > 0) {
+    lines.push('', `Invalid patterns (${invalid.length}, never match):`);
+    for (const p of invalid) lines.push(`  ${p.location}: ${p.pattern} (${p.error})`);
+  }
+  lines.push('', 'Effective skill-rules.json:', JSON.stringify(layered.rules, null, 2));
+  return lines.join('\n');
+}
@@ -0,0 +1,627 @@
+/**
+ * Security policy model for security-validator.hook.ts, loaded from
+ * security/patterns.yaml. Every rule explains itself:
+ *
+ *   commands:
+ *     - id: git-force-push
+ *       reason: Force-pushing rewrites shared history
+ *       severity: high              # critical | high | medium | low (default medium)
+ *       action: ask                 # block | ask | warn | log
+ *       pattern: '\bgit\s+push\s+(-[a-zA-Z]*f|--force)'
+ *       flags: i                    # optional regex flags (i, m, s, u)
+ *       tools: [Bash]               # optional, default [Bash]
+ *     - id: find-delete-root
+ *       reason: Deletes everything find reaches from /
+ *       action: block
+ *       program: find               # or a list; matched against the program's basename
+ *       args: '^/\s.*-delete\b'     # regex against the arguments, space-separated
+ *   paths:
+ *     - id: ssh-keys
+ *       reason: SSH keys grant access to other machines
+ *       severity: critical
+ *       action: block
+ *       path: ~/.ssh                # a gitignore-style pattern or a list of them (see path-patterns.ts)
+ *       tools: [Read, Write, Edit, Bash]   # optional; Bash checks commands that reference the path
+ *     - id: dotenv
+ *       reason: .env files hold secrets
+ *       action: ask
+ *       path: ['.env*', '!.env.example']
+ *       tools: [Write, Edit]
+ *   tools:                          # rules for one tool or a tool glob
+ *     WebFetch:
+ *       - id: fetch-metadata
+ *         reason: Cloud metadata endpoints hand out credentials
+ *         action: block
+ *         url: '^https?://169\.254\.169\.254/'   # regex against each URL the call fetches
+ *     'mcp__*':
+ *       - id: mcp-audit
+ *         reason: Record every MCP call
+ *         action: log               # no match fields: every call of the tool
+ *
+ * Command rules are matched against the raw command and against every simple
+ * command it runs (see shell.ts): `pattern` against a command's normalized
+ * text, `program` and `args` against its parts. A rule needs `pattern` or
+ * `program`; all fields it has must match the same simple command. A command
+ * too deeply nested or too long to analyze fully matches the built-in rule
+ * "analysis-truncated": block if any rule blocks, else ask.
+ *
+ * Path rules are matched against the paths a tool call targets (see
+ * tool-input.ts) and against the paths a Bash command names, each both as
+ * written and with symlinks followed. Relative patterns are anchored at the
+ * project root and at home. A recursive search (Glob, Grep, `grep -r`, `rg`,
+ * `find`) rooted above a path a rule names literally reaches it too: block
+ * rules block, other rules ask.
+ *
+ * Tool rules may have `url`, `input` (regex against each string argument) and
+ * `path`; all fields a rule has must match. `tools` entries, here and on
+ * other rules, are tool names where `*` matches anything (`mcp__github__*`).
+ *
+ * The legacy layout (commands.block / commands.confirm regex lists,
+ * paths.zeroAccess / paths.confirmWrite) is still read, as block / ask rules
+ * with generated ids; each path list becomes one rule, and bare confirmWrite
+ * names (once substrings) match as `name*`. Any error — YAML or schema —
+ * carries its line number.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join, resolve, basename } from 'path';
+import { getFrameworkDir, expandPath, realPath, isWithin } from './paths.ts';
+import { parseYaml, lineOf } from './yaml.ts';
+import { analyzeCommand, type SimpleCommand } from './shell.ts';
+import { escapeRegex } from './text-match.ts';
+import { compilePathPattern, matchesPathPatterns, type PathPattern } from './path-patterns.ts';
+import type { ToolTargets } from './tool-input.ts';
+
+export type PolicyAction = 'block' | 'ask' | 'warn' | 'log';
+export type Severity = 'critical' | 'high' | 'medium' | 'low';
+
+interface BaseRule {
+  id: string;
+  reason: string;
+  severity: Severity;
+  action: PolicyAction;
+  tools: string[];
+  /** Line in patterns.yaml the rule starts on */
+  line: number;
+}
+
+export interface CommandRule extends BaseRule {
+  kind: 'command';
+  pattern?: RegExp;
+  /** Program basenames */
+  program?: string[];
+  args?: RegExp;
+}
+
+export interface PathRule extends BaseRule {
+  kind: 'path';
+  /** Patterns as written, comma-separated (for messages) */
+  path: string;
+  patterns: PathPattern[];
+}
+
+/** A rule from the `tools` section; with no match fields it matches every call of its tools */
+export interface ToolRule extends BaseRule {
+  kind: 'tool';
+  /** Against each URL the call fetches (WebFetch `url`, MCP URL arguments) */
+  url?: RegExp;
+  /** Against each string argument */
+  input?: RegExp;
+  path?: string;
+  patterns?: PathPattern[];
+}
+
+export type PolicyRule = CommandRule | PathRule | ToolRule;
+
+export interface SecurityPolicy {
+  commands: CommandRule[];
+  paths: PathRule[];
+  tools: ToolRule[];
+}
+
+export interface PolicyMatch {
+  rule: PolicyRule;
+  /** The command or file path that matched; for a path rule hit by a command, the rule's path */
+  subject: string;
+  /** The simple command that matched, when it is not the raw command line */
+  command?: SimpleCommand;
+}
+
+const ACTIONS: PolicyAction[] = ['block', 'ask', 'warn', 'log'];
+const SEVERITIES: Severity[] = ['critical', 'high', 'medium', 'low'];
+const FLAGS = /^[imsu]*$/;
+const ID = /^[a-z0-9][a-z0-9._-]*$/i;
+
+const DEFAULT_COMMAND_TOOLS = ['Bash'];
+const DEFAULT_PATH_TOOLS = ['Read', 'Write', 'Edit', 'MultiEdit', 'NotebookEdit', 'NotebookRead', 'Glob', 'Grep', 'Bash', 'mcp__*'];
+const WRITE_TOOLS = ['Write', 'Edit', 'MultiEdit', 'NotebookEdit'];
+
+const SECTIONS: Record<PolicyRule['kind'], string> = { command: 'commands', path: 'paths', tool: 'tools' };
+const FIELDS: Record<PolicyRule['kind'], string[]> = {
+  command: ['pattern', 'program', 'args', 'flags'],
+  path: ['path'],
+  tool: ['url', 'input', 'path', 'flags'],
+};
+
+export function policyPath(): string {
+  return join(getFrameworkDir(), 'security', 'patterns.yaml');
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+function isMapping(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function policyError(line: number | undefined, message: string): Error {
+  return new Error(line ? `line ${line}: ${message}` : message);
+}
+
+function compile(source: string, flags: string, line: number | undefined, id: string): RegExp {
+  try {
+    return new RegExp(source, flags);
+  } catch (e) {
+    throw policyError(line, `rule "${id}": invalid regex ${source} (${e instanceof Error ? e.message : e})`);
+  }
+}
+
+function pathPatterns(sources: string[]): Pick<PathRule, 'path' | 'patterns'> {
+  return { path: sources.join(', '), patterns: sources.map(compilePathPattern) };
+}
+
+function readString(entry: Record<string, unknown>, key: string, line: number | undefined, id: string, required: boolean): string | undefined {
+  const value = entry[key];
+  if (value === undefined || value === null) {
+    if (required) throw policyError(line, `rule "${id}": missing "${key}"`);
+    return undefined;
+  }
+  if (typeof value === 'object') throw policyError(lineOf(entry, key) ?? line, `rule "${id}": "${key}" must be a string`);
+  return String(value);
+}
+
+/**
+ * One rule from a `commands` or `paths` list, or from a `tools.<tool glob>`
+ * list (`toolKey`), whose tool glob takes the place of a `tools` field.
+ */
+function readRule(entry: unknown, kind: PolicyRule['kind'], index: number, list: unknown[], ids: Set<string>, toolKey?: string): PolicyRule {
+  const line = lineOf(list, index);
+  const section = toolKey === undefined ? SECTIONS[kind] : `tools.${toolKey}`;
+  if (!isMapping(entry)) throw policyError(line, `${section} entries must be mappings with id, reason and action`);
+
+  const known = new Set(['id', 'reason', 'severity', 'action', ...(toolKey === undefined ? ['tools'] : []), ...FIELDS[kind]]);
+  for (const key of Object.keys(entry)) {
+    if (!known.has(key)) throw policyError(lineOf(entry, key), `unknown field "${key}" (expected ${[...known].join(', ')})`);
+  }
+
+  const id = readString(entry, 'id', line, `#${index + 1}`, true)!;
+  if (!ID.test(id)) throw policyError(lineOf(entry, 'id'), `rule id "${id}" may only contain letters, digits, ".", "_" and "-"`);
+  if (ids.has(id)) throw policyError(lineOf(entry, 'id'), `duplicate rule id "${id}"`);
+  ids.add(id);
+
+  const reason = readString(entry, 'reason', line, id, true)!;
+  const action = readString(entry, 'action', line, id, true) as PolicyAction;
+  if (!ACTIONS.includes(action)) throw policyError(lineOf(entry, 'action'), `rule "${id}": action must be one of ${ACTIONS.join(', ')}`);
+  const severity = (readString(entry, 'severity', line, id, false) ?? 'medium') as Severity;
+  if (!SEVERITIES.includes(severity)) throw policyError(lineOf(entry, 'severity'), `rule "${id}": severity must be one of ${SEVERITIES.join(', ')}`);
+
+  let tools = toolKey !== undefined ? [toolKey] : kind === 'command' ? DEFAULT_COMMAND_TOOLS : DEFAULT_PATH_TOOLS;
+  if (entry.tools !== undefined) {
+    const value = entry.tools;
+    if (!Array.isArray(value) || value.length === 0 || value.some(t => typeof t !== 'string')) {
+      throw policyError(lineOf(entry, 'tools'), `rule "${id}": tools must be a non-empty list of tool names or globs`);
+    }
+    tools = value as string[];
+  }
+
+  const base = { id, reason, severity, action, tools, line: line ?? 0 };
+  const flags = readString(entry, 'flags', line, id, false) ?? '';
+  if (!FLAGS.test(flags)) throw policyError(lineOf(entry, 'flags'), `rule "${id}": flags may only use i, m, s and u`);
+  const regex = (key: 'pattern' | 'args' | 'url' | 'input') => {
+    const source = readString(entry, key, line, id, false);
+    return source === undefined ? undefined : compile(source, flags, lineOf(entry, key), id);
+  };
+
+  if (kind === 'tool') {
+    // No match fields: every call of the tool
+    const path = entry.path === undefined ? undefined : readPathPatterns(entry, line, id);
+    return { ...base, kind, url: regex('url'), input: regex('input'), ...path };
+  }
+  if (kind === 'command') {
+    let program: string[] | undefined;
+    if (entry.program !== undefined) {
+      const value = entry.program;
+      program = Array.isArray(value) ? value : [value];
+      if (program.length === 0 || program.some(p => typeof p !== 'string' || !p)) {
+        throw policyError(lineOf(entry, 'program'), `rule "${id}": program must be a program name or a list of them`);
+      }
+    }
+    const pattern = regex('pattern');
+    if (!pattern && !program) throw policyError(line, `rule "${id}": missing "pattern" or "program"`);
+    return { ...base, kind, pattern, program, args: regex('args') };
+  }
+
+  return { ...base, kind, ...readPathPatterns(entry, line, id) };
+}
+
+function readPathPatterns(entry: Record<string, unknown>, line: number | undefined, id: string): Pick<PathRule, 'path' | 'patterns'> {
+  const value = entry.path;
+  const sources = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  if (sources.length === 0) throw policyError(line, `rule "${id}": missing "path"`);
+  if (sources.some(p => typeof p !== 'string' || !p || p === '!')) {
+    throw policyError(lineOf(entry, 'path'), `rule "${id}": path must be a pattern or a list of patterns`);
+  }
+  if (sources.every(p => p.startsWith('!'))) {
+    throw policyError(lineOf(entry, 'path'), `rule "${id}": path has only negated patterns, so it never matches`);
+  }
+  return pathPatterns(sources);
+}
+
+function readRules(value: unknown, kind: PolicyRule['kind'], ids: Set<string>, parentLine: number | undefined): PolicyRule[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw policyError(parentLine, `${SECTIONS[kind]} must be a list of rules`);
+  return value.map((entry, i) => readRule(entry, kind, i, value, ids));
+}
+
+// tools: { <tool or glob>: [rules] }
+function readToolRules(value: unknown, ids: Set<string>, parentLine: number | undefined): ToolRule[] {
+  if (value === undefined || value === null) return [];
+  if (!isMapping(value)) throw policyError(parentLine, 'tools must map tool names or globs (e.g. WebFetch, mcp__github__*) to lists of rules');
+  return Object.entries(value).flatMap(([toolKey, rules]) => {
+    if (!Array.isArray(rules)) throw policyError(lineOf(value, toolKey), `tools.${toolKey} must be a list of rules`);
+    return rules.map((entry, i) => readRule(entry, 'tool', i, rules, ids, toolKey) as ToolRule);
+  });
+}
+
+// The original two-level layout: bare regexes / paths, the list name is the action
+const BARE_NAME = /^[^!~/*?[]+$/;
+
+/**
+ * Legacy confirmWrite entries matched any path containing them; a bare name
+ * keeps matching names that start with it (`.env` covers `.env.local`).
+ */
+function legacyConfirmName(entry: string): string {
+  return BARE_NAME.test(entry) ? `${entry}*` : entry;
+}
+
+function readLegacy(doc: Record<string, unknown>): Omit<SecurityPolicy, 'tools'> {
+  const policy: Omit<SecurityPolicy, 'tools'> = { commands: [], paths: [] };
+  const list = (section: string, name: string): { values: unknown[]; lines: (i: number) => number } => {
+    const parent = doc[section];
+    if (!isMapping(parent) || parent[name] === undefined || parent[name] === null) return { values: [], lines: () => 0 };
+    const values = parent[name];
+    if (!Array.isArray(values)) throw policyError(lineOf(parent, name), `${section}.${name} must be a list`);
+    return { values, lines: i => lineOf(values, i) ?? 0 };
+  };
+
+  for (const [name, action] of [['block', 'block'], ['confirm', 'ask']] as const) {
+    const { values, lines } = list('commands', name);
+    values.forEach((value, i) => {
+      const id = `commands.${name}[${i}]`;
+      if (typeof value !== 'string') throw policyError(lines(i), `${id}: expected a regex string (quote patterns that contain ": ")`);
+      policy.commands.push({
+        kind: 'command', id, reason: `command matches ${value}`, severity: action === 'block' ? 'high' : 'medium',
+        action, tools: DEFAULT_COMMAND_TOOLS, line: lines(i), pattern: compile(value, '', lines(i), id),
+      });
+    });
+  }
+
+  // Each list is one rule, so `!` entries can allowlist what earlier entries match
+  for (const [name, action, tools] of [['zeroAccess', 'block', DEFAULT_PATH_TOOLS], ['confirmWrite', 'ask', WRITE_TOOLS]] as const) {
+    const { values, lines } = list('paths', name);
+    if (values.length === 0) continue;
+    values.forEach((value, i) => {
+      if (typeof value !== 'string') throw policyError(lines(i), `paths.${name}[${i}]: expected a path pattern`);
+    });
+    const sources = name === 'confirmWrite' ? (values as string[]).map(legacyConfirmName) : values as string[];
+    policy.paths.push({
+      kind: 'path', id: `paths.${name}`, reason: action === 'block' ? 'protected path' : 'writes need confirmation',
+      severity: action === 'block' ? 'high' : 'medium', action, tools: [...tools], line: lines(0),
+      ...pathPatterns(sources),
+    });
+  }
+  return policy;
+}
+
+/**
+ * Parse a policy document. Throws an Error whose message starts with
+ * "line N:" for YAML and schema errors alike.
+ */
+export function parsePolicy(source: string): SecurityPolicy {
+  const doc = parseYaml(source);
+  if (doc === null) return { commands: [], paths: [], tools: [] };
+  if (!isMapping(doc)) throw policyError(1, 'expected a mapping with "commands", "paths" and/or "tools"');
+
+  for (const key of Object.keys(doc)) {
+    if (!['version', 'commands', 'paths', 'tools'].includes(key)) {
+      throw policyError(lineOf(doc, key), `unknown section "${key}" (expected version, commands, paths, tools)`);
+    }
+  }
+  if (isMapping(doc.commands) || isMapping(doc.paths)) {
+    const mixed = (['commands', 'paths'] as const).find(k => Array.isArray(doc[k]));
+    if (mixed) throw policyError(lineOf(doc, mixed), `"${mixed}" is a rule list but the other section uses the legacy layout; convert both`);
+    const ids = new Set<string>();
+    return { ...readLegacy(doc), tools: readToolRules(doc.tools, ids, lineOf(doc, 'tools')) };
+  }
+
+  const ids = new Set<string>();
+  return {
+    commands: readRules(doc.commands, 'command', ids, lineOf(doc, 'commands')) as CommandRule[],
+    paths: readRules(doc.paths, 'path', ids, lineOf(doc, 'paths')) as PathRule[],
+    tools: readToolRules(doc.tools, ids, lineOf(doc, 'tools')),
+  };
+}
+
+/**
+ * Load security/patterns.yaml. A missing file is an empty policy; any parse
+ * or schema error throws with the file path and line number.
+ */
+export function loadPolicy(path: string = policyPath()): SecurityPolicy {
+  if (!existsSync(path)) return { commands: [], paths: [], tools: [] };
+  try {
+    return parsePolicy(readFileSync(path, 'utf-8'));
+  } catch (e) {
+    throw new Error(`${path}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+// ============================================================
+// Evaluation
+// ============================================================
+
+const ACTION_RANK: Record<PolicyAction, number> = { block: 3, ask: 2, warn: 1, log: 0 };
+const SEVERITY_RANK: Record<Severity, number> = { critical: 3, high: 2, medium: 1, low: 0 };
+
+function normalizeHomeTokens(command: string): string {
+  return command
+    .replace(/\$\{HOME\}/g, '~')
+    .replace(/\$HOME\b/g, '~');
+}
+
+const PATH_END = `[^\\s'"\`;|&)<>]*`;
+
+/**
+ * Absolute paths a command line spells out under one of the rule's literal
+ * patterns (`/home/u/.ssh/id_rsa`, `~/.ssh`), wherever they appear — inside
+ * option values and remote specs too.
+ */
+function mentionedPaths(command: string, rule: PathRule): string[] {
+  const home = resolve(expandPath('~'));
+  const found: string[] = [];
+  for (const pattern of rule.patterns) {
+    for (const literal of pattern.negated ? [] : pattern.literals ?? []) {
+      const forms = isWithin(literal, home) && literal !== home ? [literal, `~${literal.slice(home.length)}`] : [literal];
+      for (const form of forms) {
+        for (const [path] of command.matchAll(new RegExp(`${escapeRegex(form)}${PATH_END}`, 'g'))) found.push(path);
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Resolves file operands (arguments and redirect targets) to real paths,
+ * relative to the hook's working directory, once per call.
+ */
+function operandResolver(): (command: SimpleCommand) => string[] {
+  const cache = new Map<string, string[]>();
+  const resolveOne = (operand: string) => resolvedForms(operand);
+  return command => {
+    const operands = [
+      ...command.args.filter(a => a && !a.startsWith('-')),
+      ...command.redirects.map(r => r.split(' ').slice(1).join(' ')).filter(Boolean),
+    ];
+    return operands.flatMap(operand => {
+      if (!cache.has(operand)) cache.set(operand, resolveOne(operand));
+      return cache.get(operand)!;
+    });
+  };
+}
+
+/**
+ * Stands in for the rules a command could not be fully checked against when
+ * its analysis was truncated: blocks if the policy blocks anything, else asks.
+ */
+function truncatedRule(policy: SecurityPolicy): CommandRule {
+  const blocks = [...policy.commands, ...policy.paths, ...policy.tools].some(r => r.action === 'block');
+  return {
+    kind: 'command', id: 'analysis-truncated', severity: 'high', action: blocks ? 'block' : 'ask',
+    reason: 'the command nests or chains too many commands to check them all', tools: DEFAULT_COMMAND_TOOLS, line: 0,
+  };
+}
+
+const GREP = new Set(['grep', 'egrep', 'fgrep']);
+const GREP_RECURSIVE = /^-[a-zA-Z]*[rR]|^--(dereference-)?recursive$|^--directories=recurse$/;
+// -e / -f give the pattern, so every operand is a path; the bare forms take the next argument
+const GREP_PATTERN_OPTION = /^-[a-zA-Z]*[ef]|^--(regexp|file)\b/;
+const GREP_PATTERN_VALUE = /^-[a-zA-Z]*[ef]$|^--(regexp|file)$/;
+
+/**
+ * Directories a recursive search command walks: `find` starting points,
+ * `rg` and `grep -r` operands after the search pattern. Empty for anything else.
+ */
+function searchRoots(command: SimpleCommand): string[] {
+  const name = basename(command.program);
+  const args = command.args;
+  if (name === 'find') {
+    const start = args.findIndex(a => !/^-[HLP]$/.test(a));
+    if (start === -1) return [];
+    const end = args.findIndex((a, i) => i >= start && (a.startsWith('-') || a === '(' || a === '!'));
+    return args.slice(start, end === -1 ? undefined : end);
+  }
+  if (name !== 'rg' && !(GREP.has(name) && args.some(a => GREP_RECURSIVE.test(a)))) return [];
+  const operands: string[] = [];
+  let patternGiven = false;
+  for (let i = 0; i < args.length; i++) {
+    if (GREP_PATTERN_OPTION.test(args[i])) {
+      patternGiven = true;
+      if (GREP_PATTERN_VALUE.test(args[i])) i++;
+    } else if (args[i] && !args[i].startsWith('-')) {
+      operands.push(args[i]);
+    }
+  }
+  return patternGiven ? operands : operands.slice(1);
+}
+
+/**
+ * The first path a rule names literally (`~/.ssh`, `~/.aws/credentials`) that
+ * a recursive search from one of the roots walks into.
+ */
+function reachedPath(rule: PathRule, roots: string[], bases: string[]): string | undefined {
+  if (roots.length === 0) return undefined;
+  const dirs = roots.flatMap(resolvedForms);
+  return rule.patterns
+    .flatMap(pattern => pattern.negated ? [] : pattern.literals ?? [])
+    .find(literal => dirs.some(dir => isWithin(literal, dir)) && matchesPathPatterns(rule.patterns, [literal], bases));
+}
+
+/** Searching above a protected path: block rules still block, anything else at least asks */
+function searchMatch(rule: PathRule, subject: string, command?: SimpleCommand): PolicyMatch {
+  const action = ACTION_RANK[rule.action] >= ACTION_RANK.ask ? rule.action : 'ask';
+  return { rule: { ...rule, action }, subject, command };
+}
+
+function commandMatches(rule: CommandRule, command: SimpleCommand): boolean {
+  if (rule.program && !rule.program.includes(basename(command.program))) return false;
+  if (rule.args && !rule.args.test(command.args.join(' '))) return false;
+  return !rule.pattern || rule.pattern.test(normalizeHomeTokens(command.text));
+}
+
+/** A path as written (resolved against the working directory) and with symlinks followed */
+function resolvedForms(path: string): string[] {
+  const lexical = resolve(expandPath(path));
+  const real = realPath(lexical);
+  return real === lexical ? [lexical] : [lexical, real];
+}
+
+/** Where relative patterns are anchored: the project root and home, also via their real paths */
+function patternBases(): string[] {
+  const bases = [process.env.CLAUDE_PROJECT_DIR || process.cwd(), expandPath('~')].flatMap(resolvedForms);
+  return [...new Set(bases)];
+}
+
+const toolGlobs = new Map<string, RegExp>();
+
+/** Whether a rule's `tools` list covers the tool; `*` in an entry matches any characters */
+function appliesTo(rule: PolicyRule, toolName: string): boolean {
+  return rule.tools.some(tool => {
+    if (!tool.includes('*')) return tool === toolName;
+    if (!toolGlobs.has(tool)) toolGlobs.set(tool, new RegExp(`^${tool.split('*').map(escapeRegex).join('.*')}$`));
+    return toolGlobs.get(tool)!.test(toolName);
+  });
+}
+
+/** The first target a tool rule matches on, or null; every field the rule has must match */
+function toolRuleSubject(rule: ToolRule, toolName: string, targets: ToolTargets, bases: string[]): string | null {
+  let subject = toolName;
+  if (rule.url) {
+    const url = targets.urls.find(u => rule.url!.test(u));
+    if (url === undefined) return null;
+    subject = url;
+  }
+  if (rule.input && !targets.text.some(t => rule.input!.test(t))) return null;
+  if (rule.patterns) {
+    const path = targets.paths.find(p => matchesPathPatterns(rule.patterns!, resolvedForms(p), bases));
+    if (path === undefined) return null;
+    subject = path;
+  }
+  return subject;
+}
+
+/**
+ * Every rule the tool call matches, in policy order, each at most once. Bash
+ * commands (raw, then each simple command they run) are checked against
+ * command rules and against path rules that list Bash; the call's paths
+ * against path rules that list the tool; everything against tool rules.
+ */
+export function evaluatePolicy(policy: SecurityPolicy, toolName: string, targets: ToolTargets): PolicyMatch[] {
+  const matches: PolicyMatch[] = [];
+  const bases = patternBases();
+
+  if (targets.command) {
+    const raw = normalizeHomeTokens(targets.command);
+    const { commands, truncated } = analyzeCommand(targets.command);
+    const operands = operandResolver();
+    const named = (rule: PathRule, text: string) =>
+      matchesPathPatterns(rule.patterns, mentionedPaths(text, rule).flatMap(resolvedForms), bases);
+    for (const rule of policy.commands) {
+      if (!appliesTo(rule, toolName)) continue;
+      if (rule.pattern && !rule.program && !rule.args && rule.pattern.test(raw)) {
+        matches.push({ rule, subject: targets.command });
+        continue;
+      }
+      const command = commands.find(c => commandMatches(rule, c));
+      if (command) matches.push({ rule, subject: targets.command, command });
+    }
+    for (const rule of policy.paths) {
+      if (!appliesTo(rule, toolName)) continue;
+      if (named(rule, raw)) {
+        matches.push({ rule, subject: rule.path });
+        continue;
+      }
+      const command = commands.find(c =>
+        named(rule, normalizeHomeTokens(c.text)) || matchesPathPatterns(rule.patterns, operands(c), bases));
+      if (command) {
+        matches.push({ rule, subject: rule.path, command });
+        continue;
+      }
+      for (const search of commands) {
+        const reached = reachedPath(rule, searchRoots(search), bases);
+        if (reached === undefined) continue;
+        matches.push(searchMatch(rule, reached, search));
+        break;
+      }
+    }
+    // Commands past the analysis limits went unchecked: fail closed if any rule checks this tool's commands
+    if (truncated && [...policy.commands, ...policy.paths].some(rule => appliesTo(rule, toolName))) {
+      matches.push({ rule: truncatedRule(policy), subject: targets.command });
+    }
+  }
+
+  if (targets.paths.length > 0) {
+    for (const rule of policy.paths) {
+      if (!appliesTo(rule, toolName)) continue;
+      const path = targets.paths.find(p => matchesPathPatterns(rule.patterns, resolvedForms(p), bases));
+      if (path !== undefined) {
+        matches.push({ rule, subject: path });
+        continue;
+      }
+      const reached = reachedPath(rule, targets.roots, bases);
+      if (reached !== undefined) matches.push(searchMatch(rule, reached));
+    }
+  }
+
+  for (const rule of policy.tools) {
+    if (!appliesTo(rule, toolName)) continue;
+    const subject = toolRuleSubject(rule, toolName, targets, bases);
+    if (subject !== null) matches.push({ rule, subject });
+  }
+  return matches;
+}
+
+/**
+ * The match that decides: strictest action, then highest severity, then
+ * policy order.
+ */
+export function decidingMatch(matches: PolicyMatch[]): PolicyMatch | null {
+  let best: PolicyMatch | null = null;
+  for (const m of matches) {
+    if (!best) {
+      best = m;
+      continue;
+    }
+    const byAction = ACTION_RANK[m.rule.action] - ACTION_RANK[best.rule.action];
+    if (byAction > 0 || (byAction === 0 && SEVERITY_RANK[m.rule.severity] > SEVERITY_RANK[best.rule.severity])) best = m;
+  }
+  return best;
+}
+
+/**
+ * The user-facing explanation for a match: the rule, its severity, what it
+ * matched when that is not obvious from the call, and why the rule exists.
+ */
+export function describeMatch({ rule, subject, command }: PolicyMatch): string {
+  const target = rule.kind !== 'command' ? `"${subject}" — ` : command ? `"${command.text}" — ` : '';
+  return `rule "${rule.id}" (${rule.severity}): ${target}${rule.reason}`;
+}
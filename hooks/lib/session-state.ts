@@ -0,0 +1,127 @@
+/**
+ * Per-session skill activation memory.
+ * Persisted as memory/sessions/<session_id>.json so hooks (separate processes)
+ * can tell which skills were already suggested or injected in this session.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { frameworkPath } from './paths.ts';
+
+export interface SkillActivation {
+  /** Prompt number of the last full (non-reminder) activation */
+  lastPrompt: number;
+  count: number;
+  enforcement: string;
+}
+
+/** A `require` activation still waiting for its acknowledgment marker */
+export interface PendingRequirement {
+  suggestion: string;
+  /** Prompt number that first required it */
+  since: number;
+  /** Responses that ended without the marker */
+  misses: number;
+}
+
+export interface Compliance {
+  acknowledged: number;
+  ignored: number;
+}
+
+export interface SessionState {
+  /** Number of prompts evaluated in this session */
+  prompt: number;
+  skills: Record<string, SkillActivation>;
+  /** Skills selected on the last evaluated prompt, reminders included (conversation stickiness) */
+  active?: string[];
+  /** Unacknowledged `require` skills; kept across compaction */
+  pending?: Record<string, PendingRequirement>;
+  /** Per-skill acknowledgment record, updated by the Stop handler */
+  compliance?: Record<string, Compliance>;
+}
+
+function statePath(sessionId: string): string {
+  // Session ids come from Claude Code, but never trust them as path segments
+  const safe = sessionId.replace(/[^\w-]/g, '_');
+  return join(frameworkPath('memory', 'sessions'), `${safe}.json`);
+}
+
+function emptyState(): SessionState {
+  return { prompt: 0, skills: {} };
+}
+
+export function loadSessionState(sessionId: string): SessionState {
+  const path = statePath(sessionId);
+  if (!existsSync(path)) return emptyState();
+  try {
+    return { ...emptyState(), ...JSON.parse(readFileSync(path, 'utf-8')) };
+  } catch {
+    return emptyState();
+  }
+}
+
+export function saveSessionState(sessionId: string, state: SessionState): void {
+  try {
+    mkdirSync(frameworkPath('memory', 'sessions'), { recursive: true });
+    writeFileSync(statePath(sessionId), JSON.stringify(state));
+  } catch { /* state is an optimization — never fail the hook over it */ }
+}
+
+/**
+ * Forget activations (e.g. after compaction, when injected context is gone).
+ */
+export function resetSessionState(sessionId: string): void {
+  saveSessionState(sessionId, { ...loadSessionState(sessionId), skills: {}, active: [] });
+}
+
+export function deleteSessionState(sessionId: string): void {
+  try {
+    unlinkSync(statePath(sessionId));
+  } catch { /* already gone */ }
+}
+
+/**
+ * A skill is a repeat if it was fully activated within the last `cooldown` prompts.
+ */
+export function isRepeat(state: SessionState, skill: string, cooldown: number): boolean {
+  const prev = state.skills[skill];
+  return prev !== undefined && state.prompt - prev.lastPrompt < cooldown;
+}
+
+export function recordActivation(state: SessionState, skill: string, enforcement: string): void {
+  const prev = state.skills[skill];
+  state.skills[skill] = {
+    lastPrompt: state.prompt,
+    count: (prev?.count ?? 0) + 1,
+    enforcement,
+  };
+}
+
+/**
+ * Mark a `require` skill as waiting for acknowledgment. Re-requiring a
+ * pending skill keeps its miss count, so escalation continues.
+ */
+export function requireAcknowledgment(state: SessionState, skill: string, suggestion: string): void {
+  state.pending ??= {};
+  state.pending[skill] ??= { suggestion, since: state.prompt, misses: 0 };
+}
+
+/**
+ * Record the outcome of one response for a pending skill: acknowledged
+ * requirements are cleared, ignored ones count another miss.
+ */
+export function recordCompliance(state: SessionState, skill: string, acknowledged: boolean): void {
+  const pending = state.pending?.[skill];
+  if (!pending) return;
+
+  state.compliance ??= {};
+  const record = state.compliance[skill] ??= { acknowledged: 0, ignored: 0 };
+  if (acknowledged) {
+    record.acknowledged++;
+    delete state.pending![skill];
+  } else {
+    record.ignored++;
+    pending.misses++;
+  }
+}
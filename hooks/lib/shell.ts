@@ -0,0 +1,384 @@
+/**
+ * Shell command analysis for security-validator.hook.ts.
+ *
+ * Splits a Bash command line into the simple commands it would run, so policy
+ * rules see `rm -rf /` whether it was written plainly or hidden behind
+ * quoting, `bash -c "…"`, `$(…)`, backticks, `eval`, `xargs`, `find -exec`,
+ * wrappers (`sudo`, `env`, `command`, `\rm`, …) or `echo … | base64 -d | sh`.
+ *
+ * This is a tokenizer, not a shell: variables other than $HOME are left as
+ * written, globs are not expanded and heredoc bodies are read as commands.
+ * Analysis is best-effort and only ever adds commands to check; the raw
+ * command string is still matched as before. Past MAX_DEPTH levels of nesting
+ * or MAX_COMMANDS commands it stops and reports the result as truncated.
+ */
+
+import { basename } from 'path';
+
+export interface SimpleCommand {
+  /** Program as written, quotes removed (`/bin/rm`, `rm`); '' for a bare redirect */
+  program: string;
+  /** Arguments after the program, quotes removed */
+  args: string[];
+  /** Redirections, e.g. `> /dev/sda`, `2>&1` */
+  redirects: string[];
+  /** Normalized form for regex rules: program basename, args and redirects, space-separated */
+  text: string;
+}
+
+export interface CommandAnalysis {
+  commands: SimpleCommand[];
+  /** Nesting or command count hit a limit, so some commands were not analyzed */
+  truncated: boolean;
+}
+
+interface Token {
+  kind: 'word' | 'op' | 'redirect';
+  value: string;
+}
+
+/** Separators between simple commands; `|` and `|&` also connect a pipeline */
+const SEPARATORS = new Set([';', '&&', '||', '|', '|&', '&', '(', ')', ';;']);
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'mksh', 'ash', 'fish']);
+const RESERVED = new Set(['if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', '!', '{', '}']);
+const ASSIGNMENT = /^[A-Za-z_]\w*=/;
+
+/** Wrappers that run their arguments as a command, and their options that take a value */
+const WRAPPERS: Record<string, Set<string>> = {
+  sudo: new Set(['-u', '-g', '-h', '-p', '-C', '-D', '-r', '-t', '-U', '-T']),
+  doas: new Set(['-u', '-C']),
+  env: new Set(['-u', '-C', '--unset', '--chdir']),
+  command: new Set(),
+  builtin: new Set(),
+  exec: new Set(['-a']),
+  nice: new Set(['-n', '--adjustment']),
+  nohup: new Set(),
+  time: new Set(['-f', '-o']),
+  timeout: new Set(['-s', '-k', '--signal', '--kill-after']),
+  stdbuf: new Set(['-i', '-o', '-e']),
+  ionice: new Set(['-c', '-n', '-p']),
+  xargs: new Set(['-I', '-n', '-P', '-L', '-s', '-d', '-E', '-a', '--max-args', '--max-procs', '--delimiter', '--arg-file']),
+};
+
+const FIND_EXEC = new Set(['-exec', '-execdir', '-ok', '-okdir']);
+
+const MAX_DEPTH = 8;
+const MAX_COMMANDS = 256;
+
+// ============================================================
+// Tokenizer
+// ============================================================
+
+/** Index just past the `)` closing the `(` at `start`, skipping quoted text. */
+function closingParen(input: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < input.length; i++) {
+    const c = input[i];
+    if (c === '\\') i++;
+    else if (c === "'") {
+      const end = input.indexOf("'", i + 1);
+      i = end === -1 ? input.length : end;
+    } else if (c === '"') {
+      for (i++; i < input.length && input[i] !== '"'; i++) if (input[i] === '\\') i++;
+    } else if (c === '(') depth++;
+    else if (c === ')' && --depth === 0) return i + 1;
+  }
+  return input.length;
+}
+
+function closingBacktick(input: string, start: number): number {
+  for (let i = start + 1; i < input.length; i++) {
+    if (input[i] === '\\') i++;
+    else if (input[i] === '`') return i + 1;
+  }
+  return input.length;
+}
+
+/**
+ * Split a command line into words, operators and redirections. Quotes and
+ * backslashes are removed the way the shell would; the bodies of `$(…)`,
+ * backticks and `<(…)` are kept in the word and collected in `nested`.
+ */
+function tokenize(input: string, nested: string[]): Token[] {
+  const tokens: Token[] = [];
+  let word = '';
+  let inWord = false;
+
+  const endWord = () => {
+    if (inWord) tokens.push({ kind: 'word', value: word });
+    word = '';
+    inWord = false;
+  };
+  // `$(…)` / `<(…)` starting at i (the `(` is at i + offset)
+  const substitution = (i: number, offset: number): number => {
+    const end = closingParen(input, i + offset);
+    nested.push(input.slice(i + offset + 1, end - 1));
+    word += input.slice(i, end);
+    inWord = true;
+    return end;
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    const c = input[i];
+    const two = input.slice(i, i + 2);
+
+    if (c === ' ' || c === '\t') {
+      endWord();
+      i++;
+    } else if (c === '\n') {
+      endWord();
+      tokens.push({ kind: 'op', value: ';' });
+      i++;
+    } else if (c === '#' && !inWord) {
+      const newline = input.indexOf('\n', i);
+      i = newline === -1 ? input.length : newline;
+    } else if (c === '\\') {
+      // Line continuation, or the next character taken literally (`\rm`, `\;`)
+      if (input[i + 1] !== '\n') word += input[i + 1] ?? '';
+      inWord = true;
+      i += 2;
+    } else if (c === "'") {
+      const end = input.indexOf("'", i + 1);
+      word += input.slice(i + 1, end === -1 ? input.length : end);
+      inWord = true;
+      i = end === -1 ? input.length : end + 1;
+    } else if (c === '"') {
+      inWord = true;
+      for (i++; i < input.length && input[i] !== '"';) {
+        if (input[i] === '\\' && '$`"\\\n'.includes(input[i + 1])) {
+          if (input[i + 1] !== '\n') word += input[i + 1];
+          i += 2;
+        } else if (input.startsWith('$(', i)) {
+          i = substitution(i, 1);
+        } else if (input[i] === '`') {
+          const end = closingBacktick(input, i);
+          nested.push(input.slice(i + 1, end - 1));
+          word += input.slice(i, end);
+          i = end;
+        } else {
+          word += input[i++];
+        }
+      }
+      i++;
+    } else if (two === '$(') {
+      i = substitution(i, 1);
+    } else if (c === '`') {
+      const end = closingBacktick(input, i);
+      nested.push(input.slice(i + 1, end - 1));
+      word += input.slice(i, end);
+      inWord = true;
+      i = end;
+    } else if ((two === '<(' || two === '>(') && !inWord) {
+      i = substitution(i, 1);
+      endWord();
+    } else if (two === '&&' || two === '||' || two === '|&' || two === ';;') {
+      endWord();
+      tokens.push({ kind: 'op', value: two });
+      i += 2;
+    } else if (c === '>' || c === '<' || (two === '&>')) {
+      // A word of digits right before it is the fd (`2>`), not an argument
+      const fd = inWord && /^\d+$/.test(word) ? word : '';
+      if (fd) {
+        word = '';
+        inWord = false;
+      }
+      endWord();
+      const op = /^(&>>|&>|<<<|<<-|<<|>>|>&|<&|>\||<>|>|<)/.exec(input.slice(i))![0];
+      tokens.push({ kind: 'redirect', value: fd + op });
+      i += op.length;
+    } else if (c === ';' || c === '|' || c === '&' || c === '(' || c === ')') {
+      endWord();
+      tokens.push({ kind: 'op', value: c });
+      i++;
+    } else {
+      word += c;
+      inWord = true;
+      i++;
+    }
+  }
+  endWord();
+  return tokens;
+}
+
+// ============================================================
+// Simple commands
+// ============================================================
+
+function simpleCommand(words: string[], redirects: string[]): SimpleCommand {
+  const [program = '', ...args] = words;
+  const text = [program ? basename(program) : '', ...args, ...redirects].filter(Boolean).join(' ');
+  return { program, args, redirects, text };
+}
+
+/** Index of the first argument after a wrapper's own options. */
+function skipOptions(args: string[], valued: Set<string>, wrapper: string): number {
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i];
+    if (arg === '--') return i + 1;
+    if (wrapper === 'env' && ASSIGNMENT.test(arg)) {
+      i++;
+    } else if (arg.startsWith('-') && arg !== '-') {
+      i += valued.has(arg) ? 2 : 1;
+    } else {
+      break;
+    }
+  }
+  // timeout DURATION COMMAND, nice's legacy -N is already an option
+  if (wrapper === 'timeout') i++;
+  return i;
+}
+
+/** `-c` script of a shell invocation (`bash -c`, `sh -ec`, `zsh -lc`), if any */
+function shellScript(args: string[]): string | null {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-') || arg === '--') return null;
+    if (/^-[a-zA-Z]*c[a-zA-Z]*$/.test(arg)) return args[i + 1] ?? null;
+  }
+  return null;
+}
+
+/** True when a shell invocation reads its script from stdin (`sh`, `bash -s`, `sh -`) */
+function readsStdin(command: SimpleCommand): boolean {
+  return SHELLS.has(basename(command.program)) && command.args.every(a => a.startsWith('-'));
+}
+
+const isDecoder = (c: SimpleCommand) =>
+  (basename(c.program) === 'base64' && c.args.some(a => a === '-d' || a === '--decode' || a === '-D')) ||
+  (basename(c.program) === 'xxd' && c.args.includes('-r') && c.args.includes('-p'));
+
+/**
+ * The text a pipeline feeds to a shell when it can be worked out statically:
+ * `echo|printf <literal>`, then any number of `base64 -d` / `xxd -r -p`.
+ */
+function pipedScript(pipeline: SimpleCommand[], shell: number): string | null {
+  let producer = shell - 1;
+  while (producer >= 0 && isDecoder(pipeline[producer])) producer--;
+  if (producer < 0) return null;
+
+  const source = pipeline[producer];
+  const name = basename(source.program);
+  if (name !== 'echo' && name !== 'printf') return null;
+  let text = (name === 'echo' ? source.args.filter(a => !/^-[neE]+$/.test(a)) : source.args).join(' ');
+
+  for (const decoder of pipeline.slice(producer + 1, shell)) {
+    text = basename(decoder.program) === 'base64'
+      ? Buffer.from(text.trim(), 'base64').toString('utf-8')
+      : Buffer.from(text.replace(/\s+/g, ''), 'hex').toString('utf-8');
+  }
+  return text;
+}
+
+function createAnalyzer() {
+  const result: CommandAnalysis = { commands: [], truncated: false };
+
+  function add(command: SimpleCommand): void {
+    if (result.commands.length < MAX_COMMANDS) result.commands.push(command);
+    else result.truncated = true;
+  }
+
+  function analyze(input: string, depth: number): void {
+    if (!input.trim()) return;
+    if (depth > MAX_DEPTH) {
+      result.truncated = true;
+      return;
+    }
+
+    const nested: string[] = [];
+    const tokens = tokenize(input, nested);
+    let pipeline: SimpleCommand[] = [];
+    let words: string[] = [];
+    let redirects: string[] = [];
+
+    const endCommand = (op: string | null) => {
+      const command = words.length || redirects.length ? expand(words, redirects, depth) : null;
+      if (command) pipeline.push(command);
+      if (op !== '|' && op !== '|&') {
+        pipeline.forEach((c, i) => {
+          if (i > 0 && readsStdin(c)) {
+            const script = pipedScript(pipeline, i);
+            if (script) analyze(script, depth + 1);
+          }
+        });
+        pipeline = [];
+      }
+      words = [];
+      redirects = [];
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.kind === 'op' && SEPARATORS.has(token.value)) {
+        endCommand(token.value);
+      } else if (token.kind === 'redirect') {
+        const target = tokens[i + 1]?.kind === 'word' ? tokens[++i].value : '';
+        redirects.push(token.value.endsWith('&') ? `${token.value}${target}` : `${token.value} ${target}`.trimEnd());
+        // `sh <<< "script"`
+        if (token.value === '<<<' && words.length && SHELLS.has(basename(words[0]))) analyze(target, depth + 1);
+      } else {
+        words.push(token.value);
+      }
+    }
+    endCommand(null);
+
+    for (const body of nested) analyze(body, depth + 1);
+  }
+
+  /**
+   * Record one simple command, and whatever it runs: wrapped commands,
+   * `-c` scripts, `eval` arguments and `find -exec` commands.
+   */
+  function expand(words: string[], redirects: string[], depth: number): SimpleCommand | null {
+    if (depth > MAX_DEPTH) {
+      result.truncated = true;
+      return null;
+    }
+    let start = 0;
+    while (start < words.length && (ASSIGNMENT.test(words[start]) || RESERVED.has(words[start]))) start++;
+    words = words.slice(start);
+    if (!words.length && !redirects.length) return null;
+
+    const command = simpleCommand(words, redirects);
+    add(command);
+    if (!command.program) return command;
+
+    const name = basename(command.program);
+    if (name in WRAPPERS) {
+      const rest = command.args.slice(skipOptions(command.args, WRAPPERS[name], name));
+      // `env -S "rm -rf /"` splits its argument like a command line
+      const split = name === 'env' ? command.args.indexOf('-S') : -1;
+      if (split !== -1 && command.args[split + 1]) analyze(command.args[split + 1], depth + 1);
+      else if (rest.length) expand(rest, [], depth + 1);
+    } else if (SHELLS.has(name)) {
+      const script = shellScript(command.args);
+      if (script !== null) analyze(script, depth + 1);
+    } else if (name === 'eval') {
+      analyze(command.args.join(' '), depth + 1);
+    } else if (name === 'find') {
+      for (let i = 0; i < command.args.length; i++) {
+        if (!FIND_EXEC.has(command.args[i])) continue;
+        const end = command.args.findIndex((a, j) => j > i && (a === ';' || a === '+'));
+        const exec = command.args.slice(i + 1, end === -1 ? undefined : end);
+        if (exec.length) expand(exec, [], depth + 1);
+        if (end !== -1) i = end;
+      }
+    }
+    return command;
+  }
+
+  return { analyze, result };
+}
+
+/**
+ * Every simple command a command line would run, outermost first: each
+ * `;` / `&&` / `||` / `|` segment, what wrappers and `find -exec` run, and
+ * the contents of `-c` strings, `eval`, substitutions and statically
+ * decodable `… | sh` pipelines.
+ */
+export function analyzeCommand(command: string): CommandAnalysis {
+  const analyzer = createAnalyzer();
+  analyzer.analyze(command, 0);
+  return analyzer.result;
+}
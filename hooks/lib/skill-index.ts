@@ -0,0 +1,168 @@
+/**
+ * BM25 relevance index over skill documentation.
+ * Each skill is one document: SKILL.md plus Workflows/*.md. The index is built
+ * once and cached at memory/cache/skill-index.json, keyed by file mtimes, so a
+ * prompt only pays for a readdir + stat per skill. Several skills directories
+ * (the rule layers') index together; a later one's skill shadows an earlier
+ * one's of the same name.
+ */
+
+import { readFileSync, writeFileSync, readdirSync, statSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { frameworkPath } from './paths.ts';
+import { stem } from './text-match.ts';
+
+interface IndexedDoc {
+  length: number;
+  tf: Record<string, number>;
+}
+
+interface SkillIndex {
+  version: number;
+  /** Source file path -> mtimeMs, used for invalidation */
+  files: Record<string, number>;
+  docs: Record<string, IndexedDoc>;
+  df: Record<string, number>;
+  avgLength: number;
+}
+
+const INDEX_VERSION = 1;
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'for', 'from',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not',
+  'of', 'on', 'or', 'our', 'please', 'so', 'that', 'the', 'then', 'there',
+  'this', 'to', 'up', 'us', 'use', 'was', 'we', 'what', 'when', 'where',
+  'which', 'will', 'with', 'you', 'your',
+]);
+
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  return words.filter(w => w.length > 1 && !STOPWORDS.has(w)).map(stem);
+}
+
+function skillFiles(skillsDir: string, skill: string): string[] {
+  const skillMd = join(skillsDir, skill, 'SKILL.md');
+  if (!existsSync(skillMd)) return [];
+
+  const files = [skillMd];
+  const workflowsDir = join(skillsDir, skill, 'Workflows');
+  try {
+    for (const f of readdirSync(workflowsDir).sort()) {
+      if (f.endsWith('.md')) files.push(join(workflowsDir, f));
+    }
+  } catch { /* no Workflows/ */ }
+  return files;
+}
+
+function listSources(skillsDirs: string[]): Record<string, string[]> {
+  const sources: Record<string, string[]> = {};
+  for (const skillsDir of skillsDirs) {
+    let entries: string[] = [];
+    try {
+      entries = readdirSync(skillsDir);
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      const files = skillFiles(skillsDir, entry);
+      if (files.length > 0) sources[entry] = files;
+    }
+  }
+  return sources;
+}
+
+function mtimes(sources: Record<string, string[]>): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const files of Object.values(sources)) {
+    for (const f of files) {
+      try {
+        result[f] = statSync(f).mtimeMs;
+      } catch { /* vanished between readdir and stat */ }
+    }
+  }
+  return result;
+}
+
+function sameFiles(a: Record<string, number>, b: Record<string, number>): boolean {
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every(k => a[k] === b[k]);
+}
+
+function buildIndex(sources: Record<string, string[]>, files: Record<string, number>): SkillIndex {
+  const docs: Record<string, IndexedDoc> = {};
+  const df: Record<string, number> = {};
+  let totalLength = 0;
+
+  for (const [skill, paths] of Object.entries(sources)) {
+    const tokens: string[] = [];
+    for (const p of paths) {
+      try {
+        tokens.push(...tokenize(readFileSync(p, 'utf-8')));
+      } catch { /* unreadable — index what we can */ }
+    }
+
+    const tf: Record<string, number> = {};
+    for (const t of tokens) tf[t] = (tf[t] ?? 0) + 1;
+    for (const t of Object.keys(tf)) df[t] = (df[t] ?? 0) + 1;
+
+    docs[skill] = { length: tokens.length, tf };
+    totalLength += tokens.length;
+  }
+
+  const count = Object.keys(docs).length;
+  return { version: INDEX_VERSION, files, docs, df, avgLength: count ? totalLength / count : 0 };
+}
+
+function indexPath(): string {
+  return frameworkPath('memory', 'cache', 'skill-index.json');
+}
+
+/**
+ * Load the cached index, rebuilding it when any source file was added,
+ * removed, or modified since it was written.
+ */
+export function loadSkillIndex(skillsDirs: string | string[]): SkillIndex {
+  const sources = listSources(Array.isArray(skillsDirs) ? skillsDirs : [skillsDirs]);
+  const files = mtimes(sources);
+  const cachePath = indexPath();
+
+  try {
+    const cached: SkillIndex = JSON.parse(readFileSync(cachePath, 'utf-8'));
+    if (cached.version === INDEX_VERSION && sameFiles(cached.files, files)) return cached;
+  } catch { /* missing or corrupt — rebuild */ }
+
+  const index = buildIndex(sources, files);
+  try {
+    mkdirSync(dirname(cachePath), { recursive: true });
+    writeFileSync(cachePath, JSON.stringify(index));
+  } catch { /* cache is an optimization */ }
+  return index;
+}
+
+/**
+ * BM25 score of `query` against every indexed skill, squashed into 0..1 with
+ * score / (score + saturation) so it can sit alongside the count/total dimensions.
+ */
+export function scoreSkills(index: SkillIndex, query: string, saturation: number): Record<string, number> {
+  const terms = [...new Set(tokenize(query))];
+  const n = Object.keys(index.docs).length;
+  const scores: Record<string, number> = {};
+
+  for (const [skill, doc] of Object.entries(index.docs)) {
+    let score = 0;
+    for (const term of terms) {
+      const tf = doc.tf[term];
+      if (!tf) continue;
+      const df = index.df[term] ?? 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      const norm = K1 * (1 - B + B * (doc.length / (index.avgLength || 1)));
+      score += idf * (tf * (K1 + 1)) / (tf + norm);
+    }
+    if (score > 0) scores[skill] = score / (score + saturation);
+  }
+  return scores;
+}
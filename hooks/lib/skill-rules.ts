@@ -0,0 +1,812 @@
+/**
+ * Skill rule loading and weighted multi-factor scoring.
+ * Shared by every hook that evaluates skills/skill-rules.json:
+ * skill-eval (proactive, UserPromptSubmit) and skill-reactive (reactive, PostToolUse).
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join, relative } from 'path';
+import { getFrameworkDir } from './paths.ts';
+import { isRepeat, recordActivation, requireAcknowledgment, type SessionState, type PendingRequirement } from './session-state.ts';
+import { keywordMatches, compilePattern, type MatcherMode } from './text-match.ts';
+import { parseWorkflowRouting, matchWorkflow, readWorkflow } from './workflow-routing.ts';
+import { fitToBudget, budgetNote, type ContextBudget } from './context-budget.ts';
+import { findSkillDir, type MergeMode } from './rule-layers.ts';
+import { loadCompiledRules } from './rule-cache.ts';
+import { ackMarker, type AcknowledgmentSettings } from './acknowledgment.ts';
+import type { TelemetrySettings } from './telemetry.ts';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface Weights {
+  keyword: number;
+  pattern: number;
+  directory: number;
+  intent: number;
+  filePath: number;
+  content: number;
+  /** BM25 relevance of the prompt to the skill's docs; optional for older rule files */
+  semantic?: number;
+}
+
+export interface Triggers {
+  keywords?: string[];
+  patterns?: string[];
+  fileTypes?: string[];
+  directories?: string[];
+  intents?: string[];
+  contentPatterns?: string[];
+  tools?: string[];
+  exclude?: ExcludeTriggers;
+}
+
+/**
+ * Negative triggers, matched against the same text as keywords/patterns/intents.
+ * Any hit vetoes the rule; with `penalty` set, each hit instead subtracts that
+ * many points from the raw score (intent hits are scaled by intent weight).
+ */
+export interface ExcludeTriggers {
+  keywords?: string[];
+  patterns?: string[];
+  intents?: string[];
+  penalty?: number;
+}
+
+export type RuleType = 'proactive' | 'reactive' | 'guard';
+
+export interface Rule {
+  skill: string;
+  type: RuleType;
+  enforcement: 'suggest' | 'inject' | 'require';
+  priority: number;
+  triggers: Triggers;
+  weights?: Partial<Weights>;
+  threshold?: number;
+  /** Keyword matcher mode; overrides settings.matcher */
+  matcher?: MatcherMode;
+  /** Companion skills activated alongside this one */
+  implies?: string[];
+  /** Mutually exclusive skills; only the higher finalScore survives */
+  conflictsWith?: string[];
+  /** Family name; at most groups[group].max skills of a family activate */
+  group?: string;
+  suggestion: string;
+  /** How this rule combines with the same skill + type from a lower layer (see rule-layers.ts) */
+  merge?: MergeMode;
+}
+
+/**
+ * An intent family declared in skill-rules.json `intents`. A prompt expresses
+ * the intent if any word appears in it or any pattern matches.
+ */
+export interface IntentDefinition {
+  words?: string[];
+  patterns?: string[];
+  /** Relative weight of this intent within the intent dimension (default 1) */
+  weight?: number;
+}
+
+/**
+ * Intent families every rule set starts with; skill-rules.json `intents`
+ * entries replace them by name or add new ones.
+ */
+export const BUILTIN_INTENTS: Record<string, IntentDefinition> = {
+  debug:    { words: ['bug', 'error', 'fix', 'broken', 'crash', 'fail', 'debug', 'issue'] },
+  create:   { words: ['create', 'new', 'add', 'build', 'scaffold', 'generate', 'init'] },
+  deploy:   { words: ['deploy', 'ship', 'release', 'publish', 'push', 'launch'] },
+  test:     { words: ['test', 'spec', 'coverage', 'assert', 'expect', 'tdd'] },
+  refactor: { words: ['refactor', 'clean', 'reorganize', 'restructure', 'simplify'] },
+  research: { words: ['research', 'investigate', 'explore', 'understand', 'analyze'] },
+  review:   { words: ['review', 'feedback', 'check', 'audit', 'inspect'] },
+  extend:   { words: ['extend', 'plugin', 'hook', 'skill', 'customize', 'configure'] },
+  capture:  { words: ['note', 'capture', 'remember', 'save', 'jot', 'log', 'record'] },
+};
+
+/** The built-in intent families with the rule set's own declarations over them */
+export function intentDefinitions(rules: Pick<SkillRules, 'intents'>): Record<string, IntentDefinition> {
+  return { ...BUILTIN_INTENTS, ...rules.intents };
+}
+
+export interface GroupDefinition {
+  /** Skills of this family that may activate together (default 1) */
+  max?: number;
+}
+
+export interface ContentSettings {
+  maxFiles?: number;
+  maxBytesPerFile?: number;
+  recentFiles?: number;
+}
+
+/**
+ * Where prompt evaluation finds paths for the directory and file-type
+ * dimensions, besides the cwd and the prompt text.
+ */
+export interface PathSettings {
+  /** Staged, modified and untracked files from `git status` (default true) */
+  git?: boolean;
+  /** Files the session touched through tool calls (default true) */
+  session?: boolean;
+  maxFiles?: number;
+}
+
+export interface SemanticSettings {
+  /** BM25 score that maps to 0.5 relevance; higher = stricter */
+  saturation?: number;
+}
+
+export interface RepeatSettings {
+  /** Prompts before a repeated skill is shown in full again */
+  cooldown?: number;
+  /** What to emit for a repeat inside the cooldown window */
+  mode?: 'remind' | 'suppress';
+}
+
+export interface WorkflowSettings {
+  /**
+   * What an `inject` rule loads when the prompt matches a workflow's trigger
+   * phrases: the workflow file alone, SKILL.md plus the workflow, or always
+   * the whole SKILL.md. Without a workflow match, SKILL.md is injected.
+   */
+  inject?: 'workflow' | 'skill+workflow' | 'skill';
+}
+
+export interface ConversationSettings {
+  /** Earlier exchanges (prompt + reply) scored along with the prompt; 0 disables */
+  turns?: number;
+  /** Weight of a trigger matched n exchanges back is decay^n */
+  decay?: number;
+  /** Which sides of an exchange are scored */
+  roles?: ('user' | 'assistant')[];
+  /** Points added to the normalized score of skills selected on the previous prompt */
+  stickiness?: number;
+  /** Bytes read from the end of the transcript */
+  tailBytes?: number;
+}
+
+export interface SkillRules {
+  version: string;
+  defaults: { weights: Weights; threshold: number };
+  rules: Rule[];
+  intents?: Record<string, IntentDefinition>;
+  groups?: Record<string, GroupDefinition>;
+  exclusions: { prefixes: string[]; patterns: string[] };
+  settings: {
+    maxSuggestions: number;
+    showScores: boolean;
+    matcher?: MatcherMode;
+    content?: ContentSettings;
+    paths?: PathSettings;
+    semantic?: SemanticSettings;
+    repeat?: RepeatSettings;
+    workflows?: WorkflowSettings;
+    conversation?: ConversationSettings;
+    acknowledgment?: AcknowledgmentSettings;
+    telemetry?: TelemetrySettings;
+  };
+}
+
+/**
+ * Everything a rule can be scored against. For prompts, `text` is the prompt
+ * and `paths` is empty; for tool events, `text` is built from the tool call and
+ * `paths` holds the file(s) it touched.
+ */
+export interface EvalContext {
+  text: string;
+  cwd: string;
+  paths: string[];
+  contents: string[];
+  toolName?: string;
+  /** Per-skill 0..1 relevance from the skill doc index (prompt evaluation only) */
+  relevance?: Record<string, number>;
+  /**
+   * Files changed in the working tree or touched earlier in the session
+   * (prompt evaluation only). They add to directory and file-type matches
+   * but cannot activate a rule on their own.
+   */
+  workingPaths?: string[];
+  /** Earlier conversation turns, most recent first, with their decayed weight */
+  history?: { text: string; distance: number; weight: number }[];
+  /** Skills selected on the previous prompt (conversation stickiness) */
+  sticky?: string[];
+}
+
+export interface ScoredMatch {
+  rule: Rule;
+  normalizedScore: number;
+  finalScore: number;
+  /** Set when the match was added by another rule's `implies` */
+  impliedBy?: string;
+}
+
+// ============================================================
+// Loading
+// ============================================================
+
+/**
+ * Load the effective rule set: global, project and local skill-rules files
+ * merged by rule-layers.ts, served from the compiled cache (rule-cache.ts)
+ * while no layer changes. Returns null (and logs) when neither a global nor
+ * a project skill-rules.json can be loaded.
+ */
+export function loadSkillRules(hook: string): SkillRules | null {
+  return loadCompiledRules(hook)?.rules ?? null;
+}
+
+// ============================================================
+// Scoring Engine
+// ============================================================
+
+function matchKeywords(prompt: string, keywords: string[], mode: MatcherMode): string[] {
+  return keywords.filter(kw => keywordMatches(prompt, kw, mode));
+}
+
+function matchPatterns(prompt: string, patterns: string[]): string[] {
+  const matched: string[] = [];
+  for (const pat of patterns) {
+    if (compilePattern(pat, 'i')?.test(prompt)) matched.push(pat);
+  }
+  return matched;
+}
+
+function matchDirectories(cwd: string, paths: string[], directories: string[]): string[] {
+  return directories.filter(dir => cwd.includes(dir) || paths.some(p => p.includes(dir)));
+}
+
+function intentWeight(def: IntentDefinition | undefined): number {
+  return def?.weight ?? 1;
+}
+
+function expressesIntent(lower: string, prompt: string, def: IntentDefinition): boolean {
+  if (def.words?.some(word => lower.includes(word.toLowerCase()))) return true;
+  return matchPatterns(prompt, def.patterns ?? []).length > 0;
+}
+
+/**
+ * Returns the intents the prompt expresses. Unknown intents never match
+ * (validate-skills.ts reports them).
+ */
+function matchIntents(prompt: string, intents: string[], defs: Record<string, IntentDefinition>): string[] {
+  const lower = prompt.toLowerCase();
+  return intents.filter(intent => defs[intent] && expressesIntent(lower, prompt, defs[intent]));
+}
+
+function intentTotal(intents: string[], defs: Record<string, IntentDefinition>): number {
+  return intents.reduce((sum, intent) => sum + intentWeight(defs[intent]), 0);
+}
+
+function matchFileTypes(prompt: string, paths: string[], fileTypes: string[]): string[] {
+  return fileTypes.filter(ft => prompt.includes(ft) || paths.some(p => p.endsWith(ft)));
+}
+
+function matchContent(contents: string[], contentPatterns: string[]): string[] {
+  const matched: string[] = [];
+  for (const pat of contentPatterns) {
+    const regex = compilePattern(pat, 'im');
+    if (regex && contents.some(c => regex.test(c))) matched.push(pat);
+  }
+  return matched;
+}
+
+function matchExclude(
+  text: string,
+  exclude: ExcludeTriggers,
+  defs: Record<string, IntentDefinition>,
+  mode: MatcherMode,
+): { matched: string[]; hits: number } {
+  const keywords = matchKeywords(text, exclude.keywords ?? [], mode);
+  const patterns = matchPatterns(text, exclude.patterns ?? []);
+  const intents = matchIntents(text, exclude.intents ?? [], defs);
+  return {
+    matched: [...keywords, ...patterns, ...intents.map(i => `intent:${i}`)],
+    hits: keywords.length + patterns.length + intentTotal(intents, defs),
+  };
+}
+
+/**
+ * `tools` is a gate, not a scored dimension: a rule that names tools only
+ * applies to those tools. Prompt evaluation has no tool and ignores it.
+ */
+function matchesTool(toolName: string | undefined, tools: string[] | undefined): boolean {
+  if (!tools?.length || toolName === undefined) return true;
+  return tools.includes(toolName);
+}
+
+export interface DimensionResult {
+  name: keyof Weights;
+  /** Trigger entries that matched (keywords, patterns, intents, ...) */
+  matched: string[];
+  count: number;
+  total: number;
+  weight: number;
+}
+
+/**
+ * Full scoring breakdown for one rule, whether or not it activated.
+ * `excluded` says why a rule did not activate; undefined means it passed.
+ */
+export interface RuleEvaluation {
+  rule: Rule;
+  dimensions: DimensionResult[];
+  rawScore: number;
+  maxScore: number;
+  normalizedScore: number;
+  threshold: number;
+  finalScore: number;
+  /** triggers.exclude hits and the points they took off rawScore (0 for a veto) */
+  negative?: { matched: string[]; penalty: number };
+  /** Stickiness points added to normalizedScore */
+  sticky?: number;
+  excluded?: string;
+}
+
+export function explainRule(ctx: EvalContext, rule: Rule, rules: SkillRules): RuleEvaluation {
+  const weights: Weights = { ...rules.defaults.weights, ...rule.weights };
+  const threshold = rule.threshold ?? rules.defaults.threshold;
+  const intentDefs = intentDefinitions(rules);
+  const matcher = rule.matcher ?? rules.settings.matcher ?? 'exact';
+  const triggers = rule.triggers;
+
+  const result: RuleEvaluation = {
+    rule,
+    dimensions: [],
+    rawScore: 0,
+    maxScore: 0,
+    normalizedScore: 0,
+    threshold,
+    finalScore: 0,
+  };
+
+  if (!matchesTool(ctx.toolName, triggers.tools)) {
+    result.excluded = `tool "${ctx.toolName}" not in triggers.tools`;
+    return result;
+  }
+
+  const dims = result.dimensions;
+  const push = (name: keyof Weights, matched: string[], total: number, count = matched.length) => {
+    dims.push({ name, matched, count, total, weight: weights[name] ?? 0 });
+  };
+
+  // The prompt counts in full; a trigger only an earlier turn matches counts at that turn's weight
+  const acrossTurns = (entries: string[], match: (text: string, entries: string[]) => string[], weightOf = (_: string) => 1) => {
+    const now = match(ctx.text, entries);
+    const matched = [...now];
+    let count = now.reduce((n, e) => n + weightOf(e), 0);
+    let missing = entries.filter(e => !now.includes(e));
+    for (const turn of ctx.history ?? []) {
+      if (missing.length === 0) break;
+      const hits = match(turn.text, missing);
+      for (const hit of hits) {
+        matched.push(`${hit} (turn -${turn.distance})`);
+        count += weightOf(hit) * turn.weight;
+      }
+      missing = missing.filter(e => !hits.includes(e));
+    }
+    return { matched, count };
+  };
+
+  if (triggers.keywords?.length) {
+    const { matched, count } = acrossTurns(triggers.keywords, (text, kws) => matchKeywords(text, kws, matcher));
+    push('keyword', matched, triggers.keywords.length, count);
+  }
+  if (triggers.patterns?.length) {
+    const { matched, count } = acrossTurns(triggers.patterns, matchPatterns);
+    push('pattern', matched, triggers.patterns.length, count);
+  }
+  // Directory / file-type entries only a working file matched, labelled with that file
+  let workingOnly = 0;
+  const withWorkingPaths = (entries: string[], direct: string[], matches: (path: string, entry: string) => boolean) => {
+    const matched = [...direct];
+    for (const entry of entries) {
+      if (direct.includes(entry)) continue;
+      const path = ctx.workingPaths?.find(p => matches(p, entry));
+      if (path) {
+        matched.push(`${entry} (${path})`);
+        workingOnly++;
+      }
+    }
+    return matched;
+  };
+
+  if (triggers.directories?.length) {
+    const direct = matchDirectories(ctx.cwd, ctx.paths, triggers.directories);
+    push('directory', withWorkingPaths(triggers.directories, direct, (p, dir) => p.includes(dir)), triggers.directories.length);
+  }
+  if (triggers.intents?.length) {
+    const { matched, count } = acrossTurns(
+      triggers.intents,
+      (text, intents) => matchIntents(text, intents, intentDefs),
+      intent => intentWeight(intentDefs[intent]),
+    );
+    push('intent', matched, intentTotal(triggers.intents, intentDefs), count);
+  }
+  if (triggers.fileTypes?.length) {
+    const direct = matchFileTypes(ctx.text, ctx.paths, triggers.fileTypes);
+    push('filePath', withWorkingPaths(triggers.fileTypes, direct, (p, ft) => p.endsWith(ft)), triggers.fileTypes.length);
+  }
+  if (triggers.contentPatterns?.length) {
+    push('content', matchContent(ctx.contents, triggers.contentPatterns), triggers.contentPatterns.length);
+  }
+  if (ctx.relevance && (weights.semantic ?? 0) > 0) {
+    const relevance = ctx.relevance[rule.skill] ?? 0;
+    push('semantic', relevance > 0 ? [`bm25 ${relevance.toFixed(2)}`] : [], 1, relevance);
+  }
+
+  if (dims.length === 0) {
+    result.excluded = 'no triggers';
+    return result;
+  }
+
+  result.rawScore = dims.reduce((s, d) => s + d.count * d.weight, 0);
+  result.maxScore = dims.reduce((s, d) => s + d.total * d.weight, 0);
+
+  if (triggers.exclude) {
+    const { matched, hits } = matchExclude(ctx.text, triggers.exclude, intentDefs, matcher);
+    if (matched.length > 0) {
+      const perHit = triggers.exclude.penalty;
+      if (perHit === undefined) {
+        result.negative = { matched, penalty: 0 };
+        result.excluded = `vetoed by triggers.exclude (${matched.join(', ')})`;
+        return result;
+      }
+      const penalty = Math.min(result.rawScore, hits * perHit);
+      result.negative = { matched, penalty };
+      result.rawScore -= penalty;
+    }
+  }
+
+  const totalMatches = dims.reduce((s, d) => s + d.count, 0);
+  if (totalMatches === 0) {
+    result.excluded = 'no trigger matched';
+    return result;
+  }
+  // Semantic relevance is fractional and never zero for a prompt sharing a word
+  // with the docs; only trigger matches show the prompt is about the rule
+  const semantic = dims.find(d => d.name === 'semantic')?.count ?? 0;
+  if (workingOnly > 0 && totalMatches - semantic <= workingOnly) {
+    result.excluded = 'only working files matched (nothing in the prompt)';
+    return result;
+  }
+  if (result.maxScore === 0) {
+    result.excluded = 'all matched dimensions have weight 0';
+    return result;
+  }
+
+  result.normalizedScore = (result.rawScore / result.maxScore) * 100;
+  const stickiness = rules.settings.conversation?.stickiness ?? 0;
+  if (stickiness > 0 && ctx.sticky?.includes(rule.skill)) {
+    result.sticky = stickiness;
+    result.normalizedScore = Math.min(100, result.normalizedScore + stickiness);
+  }
+  const priority = rule.priority ?? 5;
+  result.finalScore = result.normalizedScore * (priority / 10);
+
+  if (result.normalizedScore < threshold) {
+    result.excluded = `below threshold (${result.normalizedScore.toFixed(1)} < ${threshold})`;
+  }
+  return result;
+}
+
+export function scoreRule(ctx: EvalContext, rule: Rule, rules: SkillRules): ScoredMatch | null {
+  const evaluation = explainRule(ctx, rule, rules);
+  if (evaluation.excluded) return null;
+  return { rule, normalizedScore: evaluation.normalizedScore, finalScore: evaluation.finalScore };
+}
+
+/**
+ * Whether any rule scores on the semantic dimension (worth loading the skill index).
+ */
+export function usesSemantic(rules: SkillRules): boolean {
+  if ((rules.defaults.weights.semantic ?? 0) > 0) return true;
+  return rules.rules.some(r => (r.weights?.semantic ?? 0) > 0);
+}
+
+/**
+ * Evaluate every rule of the given type, keeping the breakdown of each.
+ * Rules of other types are returned with an `excluded` reason.
+ */
+export function explainRules(rules: SkillRules, type: RuleType, ctx: EvalContext): RuleEvaluation[] {
+  return rules.rules.map(rule => {
+    const ruleType = rule.type ?? 'proactive';
+    if (ruleType !== type) {
+      return {
+        rule,
+        dimensions: [],
+        rawScore: 0,
+        maxScore: 0,
+        normalizedScore: 0,
+        threshold: rule.threshold ?? rules.defaults.threshold,
+        finalScore: 0,
+        excluded: `${ruleType} rule (not evaluated here)`,
+      };
+    }
+    return explainRule(ctx, rule, rules);
+  });
+}
+
+/**
+ * Score every rule of the given type and return matches, best first.
+ */
+export function evaluateRules(rules: SkillRules, type: RuleType, ctx: EvalContext): ScoredMatch[] {
+  const matches: ScoredMatch[] = [];
+
+  for (const rule of rules.rules) {
+    if ((rule.type ?? 'proactive') !== type) continue;
+    const scored = scoreRule(ctx, rule, rules);
+    if (scored) matches.push(scored);
+  }
+
+  matches.sort((a, b) => b.finalScore - a.finalScore);
+  return matches;
+}
+
+/**
+ * The matches in a set of evaluations (from explainRules), best first — the
+ * same result as evaluateRules without scoring twice.
+ */
+export function matchesOf(evaluations: RuleEvaluation[]): ScoredMatch[] {
+  return evaluations
+    .filter(e => !e.excluded)
+    .map(e => ({ rule: e.rule, normalizedScore: e.normalizedScore, finalScore: e.finalScore }))
+    .sort((a, b) => b.finalScore - a.finalScore);
+}
+
+// ============================================================
+// Relationships
+// ============================================================
+
+export interface Resolution {
+  /** Surviving matches, each implied companion placed right after its implier */
+  matches: ScoredMatch[];
+  dropped: { match: ScoredMatch; reason: string }[];
+}
+
+const DEFAULT_GROUP_MAX = 1;
+
+// The companion's own rule when it has one, otherwise a stand-in borrowing the implier's enforcement
+function companionMatch(skill: string, by: ScoredMatch, rules: SkillRules): ScoredMatch {
+  const type = by.rule.type ?? 'proactive';
+  const rule: Rule = rules.rules.find(r => r.skill === skill && (r.type ?? 'proactive') === type) ?? {
+    skill,
+    type,
+    enforcement: by.rule.enforcement,
+    priority: by.rule.priority,
+    triggers: {},
+    suggestion: `Use ${skill}`,
+  };
+  return { rule, normalizedScore: by.normalizedScore, finalScore: by.finalScore, impliedBy: by.rule.skill };
+}
+
+function conflicts(a: Rule, b: Rule): boolean {
+  return !!a.conflictsWith?.includes(b.skill) || !!b.conflictsWith?.includes(a.skill);
+}
+
+/**
+ * Apply `implies`, `conflictsWith` and `group` to matches sorted best first.
+ * Walking in score order means a conflict or a full group always keeps the
+ * higher finalScore. Runs before the maxSuggestions cut, so companions compete
+ * for the same slots.
+ */
+export function resolveRelationships(matches: ScoredMatch[], rules: SkillRules): Resolution {
+  const resolution: Resolution = { matches: [], dropped: [] };
+  const seen = new Set<string>();
+  const groupCounts = new Map<string, number>();
+
+  const consider = (match: ScoredMatch): void => {
+    if (seen.has(match.rule.skill)) return;
+    seen.add(match.rule.skill);
+
+    const rival = resolution.matches.find(kept => conflicts(kept.rule, match.rule));
+    if (rival) {
+      resolution.dropped.push({ match, reason: `conflicts with ${rival.rule.skill}` });
+      return;
+    }
+
+    const group = match.rule.group;
+    if (group) {
+      const max = rules.groups?.[group]?.max ?? DEFAULT_GROUP_MAX;
+      const count = groupCounts.get(group) ?? 0;
+      if (count >= max) {
+        resolution.dropped.push({ match, reason: `group "${group}" already has ${max} active` });
+        return;
+      }
+      groupCounts.set(group, count + 1);
+    }
+
+    resolution.matches.push(match);
+    for (const skill of match.rule.implies ?? []) consider(companionMatch(skill, match, rules));
+  };
+
+  for (const match of matches) consider(match);
+  return resolution;
+}
+
+// ============================================================
+// Exclusion Check
+// ============================================================
+
+/**
+ * Why a prompt skips evaluation entirely, or null if it doesn't.
+ */
+export function exclusionReason(prompt: string, exclusions: SkillRules['exclusions']): string | null {
+  const trimmed = prompt.trim().toLowerCase();
+
+  for (const prefix of exclusions.prefixes) {
+    if (trimmed.startsWith(prefix.toLowerCase())) return `prefix "${prefix}"`;
+  }
+
+  for (const pat of exclusions.patterns) {
+    if (compilePattern(pat, 'i')?.test(trimmed)) return `pattern ${pat}`;
+  }
+
+  return null;
+}
+
+export function isExcluded(prompt: string, exclusions: SkillRules['exclusions']): boolean {
+  return exclusionReason(prompt, exclusions) !== null;
+}
+
+// ============================================================
+// Output
+// ============================================================
+
+export function sanitizeContent(content: string): string {
+  // Prevent breaking out of <system-reminder> context
+  return content.replace(/<\/?system-reminder>/gi, '');
+}
+
+function readSkillFile(path: string): string | null {
+  if (!existsSync(path)) return null;
+  try {
+    return sanitizeContent(readFileSync(path, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Context for an `inject` rule: the workflow the prompt routes to (per
+ * settings.workflows.inject), falling back to the whole SKILL.md.
+ */
+interface SkillContext {
+  label: string;
+  body: string;
+  /** Framework-relative file the body came from, for budget notes */
+  path: string;
+}
+
+function loadSkillContext(rule: Rule, settings: SkillRules['settings'], prompt: string): SkillContext | null {
+  const skillDir = findSkillDir(rule.skill);
+  const skillMd = skillDir ? readSkillFile(join(skillDir, 'SKILL.md')) : null;
+  if (!skillDir || skillMd === null) return null;
+
+  // Framework-relative for project skills; global skills keep their full path
+  const base = relative(getFrameworkDir(), skillDir).startsWith('..') ? skillDir : `skills/${rule.skill}`;
+  const whole = { label: rule.skill, body: skillMd, path: `${base}/SKILL.md` };
+  const mode = settings.workflows?.inject ?? 'workflow';
+  if (mode === 'skill' || !prompt) return whole;
+
+  const route = matchWorkflow(prompt, parseWorkflowRouting(skillMd), rule.matcher ?? settings.matcher ?? 'exact');
+  const workflow = route ? readWorkflow(skillDir, route) : null;
+  if (!route || workflow === null) return whole;
+
+  const label = `${rule.skill} (workflow: ${route.name})`;
+  const body = sanitizeContent(workflow);
+  if (mode === 'skill+workflow') return { ...whole, label, body: `${skillMd}\n\n--- ${route.file} ---\n${body}` };
+  return { label, body, path: `${base}/${route.file}` };
+}
+
+const DEFAULT_REPEAT_COOLDOWN = 10;
+
+export interface FormatOptions {
+  /** Per-session activation memory; repeats are shortened and activations recorded */
+  state?: SessionState;
+  /** The prompt, so `inject` rules can load the single workflow it routes to */
+  prompt?: string;
+  /** Character budget shared by all injected content */
+  budget?: ContextBudget;
+  /** Repeat requirements the last response ignored (prompt evaluation only) */
+  escalate?: boolean;
+}
+
+function formatRequirement(
+  skill: string,
+  suggestion: string,
+  suffix: string,
+  pending: PendingRequirement | undefined,
+  settings: SkillRules['settings'],
+): string {
+  const marker = ackMarker(skill, settings.acknowledgment);
+  if (!pending?.misses) {
+    return `REQUIRED: ${suggestion}${suffix}\nPlease acknowledge before proceeding by including "${marker}" in your response.`;
+  }
+  const responses = pending.misses === 1 ? 'response' : `${pending.misses} responses`;
+  return `REQUIRED (NOT ACKNOWLEDGED — last ${responses} ignored it): ${suggestion}${suffix}\n` +
+    `Stop and acknowledge first: include "${marker}" in your response before doing anything else.`;
+}
+
+/**
+ * Render the top matches as system-reminder parts according to each rule's enforcement.
+ * With a session state, skills already shown within the cooldown window become a
+ * one-line reminder (or are dropped), and full activations are recorded in the state.
+ * `require` rules are never shortened — they must be acknowledged every time —
+ * and stay pending in the state until a response carries their marker. With
+ * `escalate`, pending requirements the last response ignored are repeated,
+ * escalated, even when nothing in this prompt matches them.
+ * Each routed workflow counts as its own activation. Injected content is trimmed
+ * by section to fit the budget; a skill that can't fit falls back to a suggestion.
+ */
+export function formatMatches(
+  matches: ScoredMatch[],
+  settings: SkillRules['settings'],
+  options: FormatOptions = {},
+): string[] {
+  const { state, prompt = '', budget } = options;
+  const escalate = options.escalate === true && settings.acknowledgment?.escalate !== false;
+  const parts: string[] = [];
+  const cooldown = settings.repeat?.cooldown ?? DEFAULT_REPEAT_COOLDOWN;
+  const repeatMode = settings.repeat?.mode ?? 'remind';
+  let remaining = budget?.maxChars ?? Infinity;
+
+  for (const match of matches.slice(0, settings.maxSuggestions)) {
+    const implied = match.impliedBy ? ` (implied by ${match.impliedBy})` : '';
+    const scoreStr = settings.showScores
+      ? ` [score: ${match.normalizedScore.toFixed(0)}]`
+      : '';
+    const suggestion = `Skill suggestion: ${match.rule.suggestion}${implied}${scoreStr}`;
+
+    const ctx = match.rule.enforcement === 'inject' ? loadSkillContext(match.rule, settings, prompt) : null;
+    const activation = ctx?.label ?? match.rule.skill;
+
+    if (state && match.rule.enforcement !== 'require' && isRepeat(state, activation, cooldown)) {
+      if (repeatMode === 'remind') {
+        parts.push(`Skill reminder: ${activation} is already active in this session (see earlier context)${scoreStr}`);
+      }
+      continue;
+    }
+
+    switch (match.rule.enforcement) {
+      case 'inject': {
+        const fitted = ctx ? fitToBudget(ctx.body, remaining, budget?.sections ?? []) : null;
+        if (ctx && fitted) {
+          const note = fitted.dropped.length ? `\n${budgetNote(fitted.dropped, ctx.path)}` : '';
+          parts.push(`--- Auto-loaded skill: ${ctx.label}${implied}${scoreStr} ---\n${fitted.text}${note}`);
+          remaining -= fitted.text.length;
+          if (state) recordActivation(state, activation, 'inject');
+        } else {
+          // Not recorded, so a later prompt with room can still inject it
+          const note = ctx ? ` [Context budget: not auto-loaded — read ${ctx.path}]` : '';
+          parts.push(`${suggestion}${note}`);
+        }
+        break;
+      }
+      case 'require': {
+        const pending = escalate ? state?.pending?.[match.rule.skill] : undefined;
+        parts.push(formatRequirement(match.rule.skill, match.rule.suggestion, `${implied}${scoreStr}`, pending, settings));
+        if (state) {
+          recordActivation(state, activation, 'require');
+          requireAcknowledgment(state, match.rule.skill, match.rule.suggestion);
+        }
+        break;
+      }
+      case 'suggest':
+      default:
+        parts.push(suggestion);
+        if (state) recordActivation(state, activation, match.rule.enforcement);
+        break;
+    }
+  }
+
+  if (state && escalate) {
+    const shown = new Set(matches.slice(0, settings.maxSuggestions).map(m => m.rule.skill));
+    for (const [skill, pending] of Object.entries(state.pending ?? {})) {
+      if (pending.misses > 0 && !shown.has(skill)) {
+        parts.push(formatRequirement(skill, pending.suggestion, '', pending, settings));
+      }
+    }
+  }
+
+  return parts;
+}
@@ -0,0 +1,130 @@
+/**
+ * Skill activation telemetry. skill-eval appends one JSON line per prompt to
+ * memory/telemetry/skill-eval.jsonl: the session, a hash of the prompt, every
+ * rule that matched some trigger with its score, the skills selected and how
+ * long the hook took. scripts/skill-report.ts summarizes the log.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, statSync } from 'fs';
+import { createHash } from 'crypto';
+import { dirname } from 'path';
+import { frameworkPath } from './paths.ts';
+import type { RuleEvaluation, ScoredMatch } from './skill-rules.ts';
+
+export interface TelemetrySettings {
+  /** Append a record per evaluated prompt (default true) */
+  enabled?: boolean;
+  /** Store the prompt text next to its hash (default false) */
+  rawPrompt?: boolean;
+  /** Size at which the log is rotated to <log>.1 (default 5 MB) */
+  maxBytes?: number;
+}
+
+export interface CandidateScore {
+  skill: string;
+  /** Normalized score, stickiness included */
+  score: number;
+  threshold: number;
+}
+
+export interface SelectedSkill {
+  skill: string;
+  enforcement: string;
+  score: number;
+}
+
+export interface TelemetryRecord {
+  ts: string;
+  session: string;
+  /** First 16 hex chars of the SHA-256 of the trimmed prompt */
+  promptHash: string;
+  prompt?: string;
+  /** Set when a prompt-level exclusion skipped scoring */
+  excluded?: string;
+  candidates: CandidateScore[];
+  selected: SelectedSkill[];
+  /** Hook latency in milliseconds */
+  ms: number;
+}
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+
+export function telemetryPath(): string {
+  return frameworkPath('memory', 'telemetry', 'skill-eval.jsonl');
+}
+
+export function hashPrompt(prompt: string): string {
+  return createHash('sha256').update(prompt.trim()).digest('hex').slice(0, 16);
+}
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Rules that matched at least one trigger — the ones worth tuning. Rules
+ * nothing matched would only bloat the log.
+ */
+export function candidateScores(evaluations: RuleEvaluation[]): CandidateScore[] {
+  return evaluations
+    .filter(e => e.dimensions.some(d => d.count > 0))
+    .map(e => ({ skill: e.rule.skill, score: round(e.normalizedScore), threshold: e.threshold }));
+}
+
+export function selectedSkills(matches: ScoredMatch[]): SelectedSkill[] {
+  return matches.map(m => ({ skill: m.rule.skill, enforcement: m.rule.enforcement, score: round(m.normalizedScore) }));
+}
+
+/**
+ * Build a record for a prompt. The raw prompt is kept only when asked for.
+ */
+export function telemetryRecord(
+  session: string,
+  prompt: string,
+  fields: Pick<TelemetryRecord, 'candidates' | 'selected' | 'ms'> & { excluded?: string },
+  settings: TelemetrySettings = {},
+): TelemetryRecord {
+  return {
+    ts: new Date().toISOString(),
+    session,
+    promptHash: hashPrompt(prompt),
+    ...(settings.rawPrompt ? { prompt } : {}),
+    ...(fields.excluded ? { excluded: fields.excluded } : {}),
+    candidates: fields.candidates,
+    selected: fields.selected,
+    ms: round(fields.ms),
+  };
+}
+
+/**
+ * Append a record, rotating the log to <path>.1 once it reaches maxBytes.
+ */
+export function appendTelemetry(
+  record: TelemetryRecord,
+  settings: TelemetrySettings = {},
+  path: string = telemetryPath(),
+): void {
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    if (existsSync(path) && statSync(path).size >= (settings.maxBytes ?? DEFAULT_MAX_BYTES)) {
+      renameSync(path, `${path}.1`);
+    }
+    appendFileSync(path, `${JSON.stringify(record)}\n`);
+  } catch { /* telemetry is best-effort — never fail the hook over it */ }
+}
+
+/**
+ * Records from the rotated log and the current one, oldest first.
+ * Unparseable lines (e.g. a write cut short) are skipped.
+ */
+export function readTelemetry(path: string = telemetryPath()): TelemetryRecord[] {
+  const records: TelemetryRecord[] = [];
+  for (const file of [`${path}.1`, path]) {
+    if (!existsSync(file)) continue;
+    for (const line of readFileSync(file, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch { /* skip */ }
+    }
+  }
+  return records;
+}
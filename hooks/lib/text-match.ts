@@ -0,0 +1,191 @@
+/**
+ * Keyword matching modes and pattern compilation for skill rules.
+ *
+ *   exact — whole-word, case-insensitive (the original behavior)
+ *   stem  — exact, or the keyword and a prompt word share a stem ("tests" ~ "test")
+ *   fuzzy — stem, or stems within a small edit distance ("skil" ~ "skill")
+ *
+ * Everything here is local and allocation-light: UserPromptSubmit has a 100ms budget.
+ */
+
+export type MatcherMode = 'exact' | 'stem' | 'fuzzy';
+
+export function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ============================================================
+// Pattern compilation
+// ============================================================
+
+// flags -> source -> regex; null marks an invalid pattern
+const compiled = new Map<string, Map<string, RegExp | null>>();
+const keywordRegexes = new Map<string, RegExp>();
+
+/**
+ * Compile a rule pattern once per process. Invalid patterns yield null (the
+ * rule cache reports them once, when it is built) and are never retried.
+ */
+export function compilePattern(source: string, flags: string): RegExp | null {
+  let byFlags = compiled.get(flags);
+  if (!byFlags) compiled.set(flags, byFlags = new Map());
+
+  let regex = byFlags.get(source);
+  if (regex === undefined) {
+    try {
+      regex = new RegExp(source, flags);
+    } catch {
+      regex = null;
+    }
+    byFlags.set(source, regex);
+  }
+  return regex;
+}
+
+function keywordRegex(keyword: string): RegExp {
+  let regex = keywordRegexes.get(keyword);
+  if (!regex) keywordRegexes.set(keyword, regex = new RegExp(`\\b${escapeRegex(keyword)}\\b`, 'i'));
+  return regex;
+}
+
+// ============================================================
+// Stemmer
+// ============================================================
+
+const VOWELS = new Set(['a', 'e', 'i', 'o', 'u']);
+
+function isConsonant(c: string): boolean {
+  return !VOWELS.has(c);
+}
+
+// "hop" + "ed" -> "hope"; short consonant-vowel-consonant stems lost an "e"
+function isShortCvc(w: string): boolean {
+  return w.length === 3
+    && isConsonant(w[0]) && !isConsonant(w[1]) && isConsonant(w[2])
+    && !'wxy'.includes(w[2]);
+}
+
+// "running" -> "runn" -> "run", but keep "fill", "pass", "buzz"
+function hasDoubleConsonant(w: string): boolean {
+  const last = w[w.length - 1];
+  return w.length >= 2 && last === w[w.length - 2] && isConsonant(last) && !'lsz'.includes(last);
+}
+
+function dropE(w: string): string {
+  return w.length > 4 && w.endsWith('e') ? w.slice(0, -1) : w;
+}
+
+/**
+ * Small inflectional stemmer: plurals, -ed, -ing and a trailing "e", so
+ * create/creates/created/creating all reduce to "creat". Not a full Porter
+ * stemmer — derivational suffixes (-ation, -ness) are left alone on purpose.
+ */
+export function stem(word: string): string {
+  let w = word.toLowerCase();
+  if (w.length <= 3) return w;
+
+  if ((w.endsWith('ies') || w.endsWith('ied')) && w.length > 4) return w.slice(0, -3) + 'y';
+
+  for (const suffix of ['ing', 'ed']) {
+    if (w.endsWith(suffix) && w.length - suffix.length >= 3) {
+      w = w.slice(0, -suffix.length);
+      if (hasDoubleConsonant(w)) return w.slice(0, -1);
+      if (isShortCvc(w)) return w + 'e';
+      return dropE(w);
+    }
+  }
+
+  if (/(sses|xes|ches|shes|zes)$/.test(w)) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith('s') && !/(ss|us|is)$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+  return dropE(w);
+}
+
+// ============================================================
+// Edit distance
+// ============================================================
+
+/**
+ * Levenshtein distance, giving up (returns max + 1) as soon as it exceeds `max`.
+ */
+export function boundedEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, curr[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+// Short words get no typo tolerance — "hook" vs "look" is not a typo
+function allowedDistance(word: string): number {
+  if (word.length < 5) return 0;
+  if (word.length < 8) return 1;
+  return 2;
+}
+
+// ============================================================
+// Keyword matching
+// ============================================================
+
+let lastText = '';
+let lastStems: string[] = [];
+let lastWordsText = '';
+let lastWords = new Set<string>();
+
+// Rules are scored one after another against the same text, so memoize the last tokenization
+function textStems(text: string): string[] {
+  if (text !== lastText) {
+    lastText = text;
+    lastStems = (text.toLowerCase().match(/[a-z0-9_]+/g) ?? []).map(stem);
+  }
+  return lastStems;
+}
+
+// Maximal \w runs: a single-word keyword matches /\bkw\b/i exactly when it is one of them
+function textWords(text: string): Set<string> {
+  if (text !== lastWordsText) {
+    lastWordsText = text;
+    lastWords = new Set((text.match(/\w+/g) ?? []).map(w => w.toLowerCase()));
+  }
+  return lastWords;
+}
+
+const SINGLE_WORD = /^\w+$/;
+
+function stemsMatch(a: string, b: string, mode: MatcherMode): boolean {
+  if (a === b) return true;
+  return mode === 'fuzzy' && boundedEditDistance(a, b, allowedDistance(b)) <= allowedDistance(b);
+}
+
+/**
+ * Whether `keyword` (a word or phrase) occurs in `text` under the given mode.
+ * Keywords with non-word characters (".tsx", "c++") only ever match exactly.
+ */
+export function keywordMatches(text: string, keyword: string, mode: MatcherMode): boolean {
+  const exact = SINGLE_WORD.test(keyword)
+    ? textWords(text).has(keyword.toLowerCase())
+    : keywordRegex(keyword).test(text);
+  if (exact) return true;
+  if (mode === 'exact' || /[^\w\s]/.test(keyword)) return false;
+
+  const kwStems = keyword.toLowerCase().split(/\s+/).filter(Boolean).map(stem);
+  if (kwStems.length === 0) return false;
+  const stems = textStems(text);
+
+  for (let i = 0; i + kwStems.length <= stems.length; i++) {
+    if (kwStems.every((k, j) => stemsMatch(stems[i + j], k, mode))) return true;
+  }
+  return false;
+}
@@ -0,0 +1,149 @@
+/**
+ * Per-tool input extraction for security-validator.hook.ts: what a tool call
+ * is about to run, touch or fetch, whatever the tool names its fields.
+ *
+ *   Bash                          command
+ *   Read, Write, Edit, MultiEdit  file_path
+ *   NotebookEdit, NotebookRead    notebook_path
+ *   Glob                          path + pattern (the directories the glob is rooted in)
+ *   Grep                          path, and path + glob (the search roots its filter reaches)
+ *   WebFetch                      url
+ *   mcp__<server>__<tool>         every string argument: path-like ones as paths,
+ *                                 URLs as urls, all of them as text
+ *
+ * Brace alternations are expanded first, so `~/.{ssh,aws}/*` is rooted in
+ * both ~/.ssh and ~/.aws. Glob and Grep also report the directories they
+ * search recursively, so a protected path beneath one counts as reached; a
+ * Grep glob narrows those only when every alternative is anchored (`docs/**`).
+ */
+
+import { join } from 'path';
+
+export interface ToolTargets {
+  command: string | null;
+  paths: string[];
+  /** Directories a recursive search walks (Glob, Grep) */
+  roots: string[];
+  urls: string[];
+  /** String arguments, for `input` regexes: top-level ones, or every one for MCP tools */
+  text: string[];
+}
+
+const FILE_FIELDS: Record<string, string> = {
+  Read: 'file_path',
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path',
+  NotebookRead: 'notebook_path',
+};
+
+/** Tools with an extractor; anything else (besides MCP tools) is logged as unknown */
+export const KNOWN_TOOLS = new Set(['Bash', ...Object.keys(FILE_FIELDS), 'Glob', 'Grep', 'WebFetch', 'WebSearch', 'Task', 'TodoWrite']);
+
+const PATH_KEY = /(path|file|dir|directory|folder|cwd|root)s?$/i;
+const URL_KEY = /(url|uri|href|endpoint)s?$/i;
+const URL_VALUE = /^(https?|ftp|wss?):\/\//i;
+const PATH_VALUE = /^(~|\.{1,2})?\/|^file:\/\//;
+const GLOB_CHARS = /[*?[]/;
+const MAX_EXPANSIONS = 256;
+
+/** MCP tool names are `mcp__<server>__<tool>` */
+export function isMcpTool(toolName: string): boolean {
+  return toolName.startsWith('mcp__');
+}
+
+const str = (v: unknown): string | null => (typeof v === 'string' && v ? v : null);
+
+/** `a/{b,c}/d` as `a/b/d` and `a/c/d`, nested alternations too; a brace without a comma is literal */
+function expandBraces(glob: string): string[] {
+  for (let open = glob.indexOf('{'); open !== -1; open = glob.indexOf('{', open + 1)) {
+    let depth = 0;
+    let close = -1;
+    const commas: number[] = [];
+    for (let i = open; i < glob.length && close === -1; i++) {
+      if (glob[i] === '{') depth++;
+      else if (glob[i] === '}' && --depth === 0) close = i;
+      else if (glob[i] === ',' && depth === 1) commas.push(i);
+    }
+    if (close === -1 || commas.length === 0) continue;
+
+    const bounds = [open, ...commas, close];
+    const expanded: string[] = [];
+    for (let k = 0; k < bounds.length - 1 && expanded.length < MAX_EXPANSIONS; k++) {
+      expanded.push(...expandBraces(glob.slice(0, open) + glob.slice(bounds[k] + 1, bounds[k + 1]) + glob.slice(close + 1)));
+    }
+    return expanded.slice(0, MAX_EXPANSIONS);
+  }
+  return [glob];
+}
+
+/** The directory a glob search starts from: its literal leading segments */
+function globRoot(path: string | null, pattern: string | null): string | null {
+  const full = pattern?.startsWith('/') || pattern?.startsWith('~') ? pattern : join(path ?? '.', pattern ?? '');
+  const segments = full.split('/');
+  const first = segments.findIndex(s => GLOB_CHARS.test(s));
+  const root = (first === -1 ? segments : segments.slice(0, first)).join('/');
+  return root || (full.startsWith('/') ? '/' : path);
+}
+
+/** Every directory a glob search starts from, one per brace alternative */
+function globRoots(path: string | null, pattern: string | null): string[] {
+  const roots = (pattern ? expandBraces(pattern) : [null]).map(p => globRoot(path, p));
+  return [...new Set(roots)].filter((r): r is string => !!r && r !== '.');
+}
+
+/**
+ * Where a Grep search recurses: its path, or the glob's roots when every
+ * alternative has a directory part (gitignore-style globs without one, or
+ * negated ones, apply at any depth below the path).
+ */
+function grepRoots(path: string | null, glob: string | null): string[] {
+  const anchored = glob !== null && expandBraces(glob).every(g => !g.startsWith('!') && g.replace(/\/+$/, '').includes('/'));
+  if (anchored) return globRoots(path, glob);
+  return path ? [path] : [];
+}
+
+// Collects string arguments from nested MCP input, a bounded number of levels deep
+function collectMcp(value: unknown, key: string, targets: ToolTargets, depth: number): void {
+  if (depth > 4) return;
+  if (typeof value === 'string') {
+    targets.text.push(value);
+    if (URL_VALUE.test(value) || (URL_KEY.test(key) && value.includes('://'))) targets.urls.push(value);
+    else if (PATH_VALUE.test(value) || (PATH_KEY.test(key) && !value.includes('\n'))) targets.paths.push(value.replace(/^file:\/\//, ''));
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectMcp(item, key, targets, depth + 1);
+  } else if (value && typeof value === 'object') {
+    for (const [k, v] of Object.entries(value)) collectMcp(v, k, targets, depth + 1);
+  }
+}
+
+/**
+ * Everything the policy can check in one tool call's input.
+ */
+export function extractTargets(toolName: string, input: Record<string, unknown>): ToolTargets {
+  const targets: ToolTargets = { command: null, paths: [], roots: [], urls: [], text: [] };
+
+  if (toolName === 'Bash') {
+    targets.command = str(input.command);
+  } else if (toolName in FILE_FIELDS) {
+    const path = str(input[FILE_FIELDS[toolName]]);
+    if (path) targets.paths.push(path);
+  } else if (toolName === 'Glob') {
+    targets.paths.push(...globRoots(str(input.path), str(input.pattern)));
+    targets.roots.push(...targets.paths);
+  } else if (toolName === 'Grep') {
+    const path = str(input.path);
+    const glob = str(input.glob);
+    if (path) targets.paths.push(path);
+    if (glob) targets.paths.push(...globRoots(path, glob).filter(r => r !== path));
+    targets.roots.push(...grepRoots(path, glob));
+  } else if (toolName === 'WebFetch') {
+    const url = str(input.url);
+    if (url) targets.urls.push(url);
+  }
+
+  if (isMcpTool(toolName)) collectMcp(input, '', targets, 0);
+  else targets.text = Object.values(input).filter((v): v is string => typeof v === 'string');
+  return targets;
+}
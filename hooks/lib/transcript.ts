@@ -0,0 +1,175 @@
+/**
+ * Session transcript reader.
+ * Claude Code writes the session as JSONL (one message per line). Hooks only
+ * ever need the recent tail, so reads are bounded to the last few hundred KB.
+ */
+
+import { openSync, readSync, closeSync, statSync } from 'fs';
+
+interface ContentBlock {
+  type: string;
+  text?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+}
+
+export interface TranscriptEntry {
+  type?: string;
+  message?: {
+    role?: string;
+    content?: string | ContentBlock[];
+  };
+}
+
+export interface TranscriptTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  /** Exchanges back: 1 for the last prompt and its reply, 2 for the one before, … */
+  distance: number;
+}
+
+const TAIL_BYTES = 256 * 1024;
+
+// Hook output echoed into the transcript; scoring it would make suggestions feed themselves
+const SYSTEM_REMINDER = /<system-reminder>[\s\S]*?<\/system-reminder>/g;
+
+/**
+ * Parse the last `tailBytes` of a transcript. The first line is dropped when
+ * the read starts mid-file, and malformed lines are skipped.
+ */
+export function readTranscriptTail(path: string, tailBytes: number = TAIL_BYTES): TranscriptEntry[] {
+  let text: string;
+  let truncated = false;
+  try {
+    const { size } = statSync(path);
+    const start = Math.max(0, size - tailBytes);
+    truncated = start > 0;
+    const buf = Buffer.alloc(size - start);
+    const fd = openSync(path, 'r');
+    try {
+      readSync(fd, buf, 0, buf.length, start);
+    } finally {
+      closeSync(fd);
+    }
+    text = buf.toString('utf-8');
+  } catch {
+    return [];
+  }
+
+  const lines = text.split('\n');
+  if (truncated) lines.shift();
+
+  const entries: TranscriptEntry[] = [];
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch { /* partial or malformed line — skip */ }
+  }
+  return entries;
+}
+
+function contentBlocks(entry: TranscriptEntry): ContentBlock[] {
+  const content = entry.message?.content;
+  return Array.isArray(content) ? content : [];
+}
+
+function entryTexts(entry: TranscriptEntry): string[] {
+  const content = entry.message?.content;
+  if (typeof content === 'string') return [content];
+  return contentBlocks(entry)
+    .filter(b => b.type === 'text' && typeof b.text === 'string')
+    .map(b => b.text!);
+}
+
+/**
+ * Whether a skill's context is already in the session: its SKILL.md was read,
+ * the Skill tool loaded it, or skill-eval auto-injected it.
+ */
+export function skillLoaded(entries: TranscriptEntry[], skill: string): boolean {
+  const skillMd = `skills/${skill}/SKILL.md`;
+  const injected = `--- Auto-loaded skill: ${skill}`;
+
+  for (const entry of entries) {
+    for (const block of contentBlocks(entry)) {
+      if (block.type !== 'tool_use' || !block.input) continue;
+      const path = block.input.file_path;
+      if (typeof path === 'string' && path.endsWith(skillMd)) return true;
+      if (block.name === 'Skill' && block.input.skill === skill) return true;
+    }
+    if (entryTexts(entry).some(t => t.includes(injected))) return true;
+  }
+  return false;
+}
+
+/**
+ * Files the assistant touched via tool calls, most recent first, deduplicated.
+ */
+export function recentToolFiles(entries: TranscriptEntry[], limit: number): string[] {
+  const files: string[] = [];
+  for (let i = entries.length - 1; i >= 0 && files.length < limit; i--) {
+    const blocks = contentBlocks(entries[i]);
+    for (let j = blocks.length - 1; j >= 0 && files.length < limit; j--) {
+      const block = blocks[j];
+      if (block.type !== 'tool_use' || !block.input) continue;
+      const path = block.input.file_path ?? block.input.notebook_path;
+      if (typeof path === 'string' && !files.includes(path)) files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Text of the last `limit` exchanges, most recent first. Tool calls and tool
+ * results are skipped. `current` is the prompt being evaluated; if the
+ * transcript already ends with it, it is not counted as history.
+ */
+export function recentTurns(
+  entries: TranscriptEntry[],
+  limit: number,
+  roles: TranscriptTurn['role'][] = ['user', 'assistant'],
+  current?: string,
+): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  let distance = 1;
+  let seenReply = false;
+  let skippedCurrent = false;
+
+  for (let i = entries.length - 1; i >= 0 && distance <= limit; i--) {
+    const role = entries[i].message?.role ?? entries[i].type;
+    if (role !== 'user' && role !== 'assistant') continue;
+    const text = entryTexts(entries[i]).map(t => t.replace(SYSTEM_REMINDER, '').trim()).filter(Boolean).join('\n');
+    if (!text) continue;
+
+    if (role === 'user' && distance === 1 && !seenReply && !skippedCurrent && text === current?.trim()) {
+      skippedCurrent = true;
+      continue;
+    }
+    if (roles.includes(role)) turns.push({ role, text, distance });
+
+    // A user prompt opens its exchange; everything before it is one exchange further back
+    if (role === 'user') {
+      distance++;
+      seenReply = false;
+    } else {
+      seenReply = true;
+    }
+  }
+  return turns;
+}
+
+/**
+ * Text of the assistant's latest response: every assistant text block after
+ * the last user prompt (tool results don't count as prompts). Empty when the
+ * assistant hasn't written anything since.
+ */
+export function lastAssistantText(entries: TranscriptEntry[]): string {
+  const texts: string[] = [];
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const role = entries[i].message?.role ?? entries[i].type;
+    const text = entryTexts(entries[i]);
+    if (role === 'user' && text.length > 0) break;
+    if (role === 'assistant') texts.unshift(...text);
+  }
+  return texts.join('\n');
+}
@@ -0,0 +1,102 @@
+/**
+ * Workflow routing: parse a skill's "Workflow Routing" table and pick the
+ * workflow a prompt asks for, so `inject` rules can load one procedure
+ * instead of the whole SKILL.md.
+ *
+ *   | Workflow | Trigger | File |
+ *   |----------|---------|------|
+ *   | **Capture** | "take a note", "jot this down" | `Workflows/Capture.md` |
+ */
+
+import { readFileSync } from 'fs';
+import { join, resolve, sep } from 'path';
+import { keywordMatches, type MatcherMode } from './text-match.ts';
+
+export interface WorkflowRoute {
+  name: string;
+  triggers: string[];
+  /** Path relative to the skill directory, e.g. Workflows/Capture.md */
+  file: string;
+}
+
+const ROUTING_HEADING = /^#{2,3}\s+Workflow Routing\s*$/im;
+
+function cells(row: string): string[] {
+  return row.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(c => c.trim());
+}
+
+// Quoted phrases when present ("take a note", "jot this down"), otherwise comma-separated
+function parseTriggers(cell: string): string[] {
+  const quoted = [...cell.matchAll(/"([^"]+)"/g)].map(m => m[1].trim());
+  if (quoted.length > 0) return quoted;
+  return cell.split(',').map(t => t.trim()).filter(Boolean);
+}
+
+/**
+ * Routes from the first table under a "Workflow Routing" heading. Rows without
+ * a Workflows/*.md file are skipped.
+ */
+export function parseWorkflowRouting(skillMd: string): WorkflowRoute[] {
+  const heading = ROUTING_HEADING.exec(skillMd);
+  if (!heading) return [];
+
+  const routes: WorkflowRoute[] = [];
+  const lines = skillMd.slice(heading.index + heading[0].length).split('\n');
+  let inTable = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('|')) {
+      // Blank lines before the table are fine; anything after it ends the section
+      if (inTable || /^#/.test(trimmed)) break;
+      continue;
+    }
+    inTable = true;
+
+    const [name, trigger, file] = cells(trimmed);
+    if (!file || /^-+$/.test(name) || name.toLowerCase() === 'workflow') continue;
+    const path = file.replace(/`/g, '');
+    if (!/^Workflows\/[^/]+\.md$/.test(path)) continue;
+
+    routes.push({ name: name.replace(/\*/g, ''), triggers: parseTriggers(trigger ?? ''), file: path });
+  }
+  return routes;
+}
+
+/**
+ * The workflow whose trigger phrases best match the prompt. A tie between
+ * workflows is not a clear match and returns null.
+ */
+export function matchWorkflow(prompt: string, routes: WorkflowRoute[], mode: MatcherMode): WorkflowRoute | null {
+  let best: WorkflowRoute | null = null;
+  let bestHits = 0;
+  let tied = false;
+
+  for (const route of routes) {
+    const hits = route.triggers.filter(t => keywordMatches(prompt, t, mode)).length;
+    if (hits > bestHits) {
+      best = route;
+      bestHits = hits;
+      tied = false;
+    } else if (hits > 0 && hits === bestHits) {
+      tied = true;
+    }
+  }
+  return tied ? null : best;
+}
+
+/**
+ * Read a routed workflow file. Returns null when it is missing or would
+ * resolve outside the skill directory.
+ */
+export function readWorkflow(skillDir: string, route: WorkflowRoute): string | null {
+  const root = resolve(skillDir);
+  const path = resolve(join(root, route.file));
+  if (!path.startsWith(root + sep)) return null;
+
+  try {
+    return readFileSync(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * YAML subset parser for framework config (security/patterns.yaml).
+ *
+ * Supported: block mappings and sequences (a sequence may sit at its parent
+ * key's indentation), sequence items that are mappings (`- id: x`), plain,
+ * 'single' and "double" quoted scalars, flow sequences of scalars (`[a, b]`),
+ * true / false / null / numbers, and # comments. Keys are plain identifiers
+ * (letters, digits, _ . -) or quoted. Anchors, tags, flow mappings, block
+ * scalars (| >) and multi-document files are rejected.
+ *
+ * Errors carry the 1-based line they were found on. Line numbers of parsed
+ * mappings, sequences and their entries are available through lineOf(), so
+ * callers can report schema errors against the source too.
+ */
+
+export interface YamlError extends Error {
+  line: number;
+}
+
+interface Line {
+  number: number;
+  indent: number;
+  text: string;
+}
+
+interface Position {
+  line: number;
+  /** Key (or sequence index) -> line of that entry */
+  entries: Map<string | number, number>;
+}
+
+const positions = new WeakMap<object, Position>();
+
+const PLAIN_KEY = /^([A-Za-z0-9_][\w.-]*):(?:\s+|$)/;
+const DOUBLE_KEY = /^"((?:[^"\\]|\\.)*)":(?:\s+|$)/;
+const SINGLE_KEY = /^'((?:[^']|'')*)':(?:\s+|$)/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+const ESCAPES: Record<string, string> = {
+  '\\': '\\', '"': '"', '/': '/', n: '\n', t: '\t', r: '\r', '0': '\0', ' ': ' ',
+};
+
+function fail(line: number, message: string): never {
+  throw Object.assign(new Error(`line ${line}: ${message}`), { line }) as YamlError;
+}
+
+/**
+ * Line of a parsed mapping or sequence, or of one of its entries.
+ */
+export function lineOf(node: object, key?: string | number): number | undefined {
+  const position = positions.get(node);
+  if (!position) return undefined;
+  return key === undefined ? position.line : position.entries.get(key);
+}
+
+// ============================================================
+// Scalars
+// ============================================================
+
+// Text after a closing quote or flow bracket may only be a comment
+function expectEnd(rest: string, line: number): void {
+  const trimmed = rest.trim();
+  if (trimmed && !trimmed.startsWith('#')) fail(line, `unexpected text after value: ${trimmed}`);
+}
+
+function stripComment(text: string): string {
+  const match = /(^|\s)#/.exec(text);
+  return (match ? text.slice(0, match.index) : text).trimEnd();
+}
+
+/** Returns the decoded string and the index just past the closing quote. */
+function readQuoted(text: string, line: number): [string, number] {
+  const quote = text[0];
+  let value = '';
+  for (let i = 1; i < text.length; i++) {
+    const c = text[i];
+    if (quote === "'") {
+      if (c !== "'") {
+        value += c;
+      } else if (text[i + 1] === "'") {
+        value += "'";
+        i++;
+      } else {
+        return [value, i + 1];
+      }
+    } else if (c === '\\') {
+      const next = text[++i];
+      if (next === undefined || !(next in ESCAPES)) {
+        fail(line, `unsupported escape "\\${next ?? ''}" in a double-quoted string (single quotes keep backslashes as-is)`);
+      }
+      value += ESCAPES[next];
+    } else if (c === '"') {
+      return [value, i + 1];
+    } else {
+      value += c;
+    }
+  }
+  return fail(line, `unterminated ${quote === '"' ? 'double' : 'single'}-quoted string`);
+}
+
+function plainScalar(text: string): unknown {
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text === 'null' || text === '~') return null;
+  if (NUMBER.test(text)) return Number(text);
+  return text;
+}
+
+function parseFlowSequence(text: string, line: number): unknown[] {
+  const items: unknown[] = [];
+  let i = 1;
+  for (;;) {
+    while (text[i] === ' ') i++;
+    if (text[i] === ']' && items.length === 0) {
+      expectEnd(text.slice(i + 1), line);
+      return items;
+    }
+
+    let item: unknown;
+    if (text[i] === '"' || text[i] === "'") {
+      const [value, end] = readQuoted(text.slice(i), line);
+      item = value;
+      i += end;
+    } else {
+      const end = text.slice(i).search(/[,\]]/);
+      if (end === -1) fail(line, 'unterminated flow sequence (missing "]")');
+      const raw = text.slice(i, i + end).trim();
+      if (!raw) fail(line, 'empty item in flow sequence');
+      if ('[{'.includes(raw[0])) fail(line, 'nested flow collections are not supported');
+      item = plainScalar(raw);
+      i += end;
+    }
+    items.push(item);
+
+    while (text[i] === ' ') i++;
+    if (text[i] === ',') {
+      i++;
+    } else if (text[i] === ']') {
+      expectEnd(text.slice(i + 1), line);
+      return items;
+    } else {
+      fail(line, 'expected "," or "]" in flow sequence');
+    }
+  }
+}
+
+function parseScalar(text: string, line: number): unknown {
+  const first = text[0];
+  if (first === '"' || first === "'") {
+    const [value, end] = readQuoted(text, line);
+    expectEnd(text.slice(end), line);
+    return value;
+  }
+  if (first === '[') return parseFlowSequence(text, line);
+  if (first === '{') fail(line, 'flow mappings ({ }) are not supported');
+  if (first === '|' || first === '>') fail(line, 'block scalars (| and >) are not supported; use a quoted string');
+  if (first === '&' || first === '*' || first === '!') {
+    fail(line, `anchors, aliases and tags are not supported; quote values starting with "${first}"`);
+  }
+  return plainScalar(stripComment(text));
+}
+
+// ============================================================
+// Blocks
+// ============================================================
+
+function readLines(source: string): Line[] {
+  const lines: Line[] = [];
+  source.split(/\r?\n/).forEach((raw, i) => {
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+    const indent = raw.length - raw.trimStart().length;
+    if (raw.slice(0, indent).includes('\t')) fail(i + 1, 'tabs are not allowed in indentation');
+    lines.push({ number: i + 1, indent, text: raw.trim() });
+  });
+  return lines;
+}
+
+const isItem = (text: string) => text === '-' || text.startsWith('- ');
+
+// "key:  # note" has no inline value
+const withoutComment = (rest: string) => (rest.startsWith('#') ? '' : rest);
+
+function matchKey(text: string, line: number): [string, string] | null {
+  const plain = PLAIN_KEY.exec(text);
+  if (plain) return [plain[1], text.slice(plain[0].length)];
+  const quoted = DOUBLE_KEY.exec(text) ?? SINGLE_KEY.exec(text);
+  if (quoted) {
+    const [key] = readQuoted(text, line);
+    return [key, text.slice(quoted[0].length)];
+  }
+  return null;
+}
+
+function createParser(lines: Line[]) {
+  let pos = 0;
+
+  // The value of `key:` / `-` with nothing after it: a nested block or null
+  function nestedValue(parentIndent: number, sequenceAllowedAtParent: boolean): unknown {
+    const next = lines[pos];
+    if (!next) return null;
+    if (next.indent > parentIndent) return parseBlock(next.indent);
+    if (sequenceAllowedAtParent && next.indent === parentIndent && isItem(next.text)) return parseSequence(parentIndent);
+    return null;
+  }
+
+  function parseBlock(indent: number): unknown {
+    return isItem(lines[pos].text) ? parseSequence(indent) : parseMapping(indent);
+  }
+
+  function parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    const position: Position = { line: lines[pos].number, entries: new Map() };
+    positions.set(items, position);
+
+    while (pos < lines.length && lines[pos].indent === indent && isItem(lines[pos].text)) {
+      const current = lines[pos];
+      const rest = withoutComment(current.text.slice(1).trimStart());
+      position.entries.set(items.length, current.number);
+
+      if (!rest) {
+        pos++;
+        items.push(nestedValue(indent, false));
+      } else if (matchKey(rest, current.number)) {
+        // "- key: value" opens a mapping indented to where "key" starts
+        const offset = current.text.length - rest.length;
+        lines[pos] = { ...current, indent: indent + offset, text: rest };
+        items.push(parseMapping(indent + offset));
+      } else {
+        pos++;
+        items.push(parseScalar(rest, current.number));
+      }
+      checkDedent(indent);
+    }
+    return items;
+  }
+
+  function parseMapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+    const position: Position = { line: lines[pos].number, entries: new Map() };
+    positions.set(mapping, position);
+
+    while (pos < lines.length && lines[pos].indent === indent) {
+      const current = lines[pos];
+      if (isItem(current.text)) fail(current.number, 'sequence item where a "key: value" entry was expected');
+
+      const entry = matchKey(current.text, current.number);
+      if (!entry) fail(current.number, `expected "key: value", got: ${current.text}`);
+      const key = entry[0];
+      const rest = withoutComment(entry[1]);
+      if (Object.hasOwn(mapping, key)) fail(current.number, `duplicate key "${key}"`);
+      position.entries.set(key, current.number);
+
+      pos++;
+      mapping[key] = rest ? parseScalar(rest, current.number) : nestedValue(indent, true);
+      checkDedent(indent);
+    }
+    return mapping;
+  }
+
+  // After an entry, the next line must continue this block or close it
+  function checkDedent(indent: number): void {
+    const next = lines[pos];
+    if (next && next.indent > indent) fail(next.number, 'unexpected indentation');
+  }
+
+  return {
+    parseDocument(): unknown {
+      if (lines.length === 0) return null;
+      if (lines[0].text === '---') pos++;
+      if (pos >= lines.length) return null;
+
+      const value = parseBlock(lines[pos].indent);
+      const next = lines[pos];
+      if (next) {
+        fail(next.number, next.text === '---' ? 'multiple documents are not supported' : 'unexpected dedent');
+      }
+      return value;
+    },
+  };
+}
+
+/**
+ * Parse a YAML document in the supported subset. Throws a YamlError (with
+ * `line`) on anything outside it.
+ */
+export function parseYaml(source: string): unknown {
+  return createParser(readLines(source)).parseDocument();
+}
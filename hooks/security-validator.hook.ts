@@ -2,100 +2,29 @@
 /**
  * security-validator.hook.ts — Command/Path Safety Validator (PreToolUse)
  *
- * PURPOSE: Validate tool calls against security patterns before execution.
- * TRIGGER: PreToolUse (matcher: Bash, Write, Edit, Read)
- * INPUT:   { tool_name, tool_input, session_id }
- * OUTPUT:  JSON decision: { continue: true } or { decision: "block", message }
+ * PURPOSE: Validate tool calls against the security policy (security/patterns.yaml,
+ *          see lib/security-policy.ts) before execution, then against "guard"
+ *          rules in skills/skill-rules.json.
+ * TRIGGER: PreToolUse (matcher: Bash, Read, Write, Edit, MultiEdit, NotebookEdit, Glob, Grep, WebFetch, mcp__*)
+ * INPUT:   { tool_name, tool_input, session_id, transcript_path? }
+ * OUTPUT:  JSON decision: { continue: true [, systemMessage] } or { decision: "block" | "ask", message }
  * EXIT:    0 (with decision) or 2 (hard block)
  */
 
-import { readFileSync, existsSync } from 'fs';
-import { join, resolve } from 'path';
 import { readStdin } from './lib/stdin.ts';
-import { getFrameworkDir, expandPath } from './lib/paths.ts';
 import { log } from './lib/logger.ts';
+import { loadSkillRules, evaluateRules, type Rule } from './lib/skill-rules.ts';
+import { readTranscriptTail, skillLoaded, lastAssistantText } from './lib/transcript.ts';
+import { loadSessionState } from './lib/session-state.ts';
+import { ackMarker, isAcknowledged } from './lib/acknowledgment.ts';
+import { loadPolicy, evaluatePolicy, decidingMatch, describeMatch, type SecurityPolicy } from './lib/security-policy.ts';
+import { extractTargets, isMcpTool, KNOWN_TOOLS, type ToolTargets } from './lib/tool-input.ts';
 
 interface HookInput {
   tool_name: string;
   tool_input: Record<string, unknown>;
   session_id: string;
-}
-
-const KNOWN_TOOLS = new Set(['Bash', 'Write', 'Edit', 'Read', 'Glob', 'Grep']);
-
-interface CompiledPattern {
-  regex: RegExp;
-  source: string;
-}
-
-interface SecurityPatterns {
-  commands?: {
-    block?: CompiledPattern[];
-    confirm?: CompiledPattern[];
-  };
-  paths?: {
-    zeroAccess?: string[];
-    confirmWrite?: string[];
-  };
-}
-
-function loadPatterns(): SecurityPatterns | null {
-  const patternsPath = join(getFrameworkDir(), 'security', 'patterns.yaml');
-  if (!existsSync(patternsPath)) return {};
-
-  try {
-    // Simple YAML parser for our flat structure
-    const content = readFileSync(patternsPath, 'utf-8');
-    const patterns: SecurityPatterns = { commands: {}, paths: {} };
-
-    let currentSection = '';
-    let currentSubSection = '';
-
-    for (const line of content.split('\n')) {
-      const trimmed = line.trim();
-      if (!trimmed || trimmed.startsWith('#')) continue;
-
-      if (trimmed === 'commands:') { currentSection = 'commands'; continue; }
-      if (trimmed === 'paths:') { currentSection = 'paths'; continue; }
-
-      if (trimmed.endsWith(':') && !trimmed.startsWith('-')) {
-        currentSubSection = trimmed.slice(0, -1).trim();
-        continue;
-      }
-
-      if (trimmed.startsWith('- ')) {
-        const value = trimmed.slice(2).replace(/^["']|["']$/g, '');
-        if (currentSection === 'commands') {
-          try {
-            const compiled = { regex: new RegExp(value), source: value };
-            if (currentSubSection === 'block') {
-              patterns.commands!.block = patterns.commands!.block || [];
-              patterns.commands!.block.push(compiled);
-            } else if (currentSubSection === 'confirm') {
-              patterns.commands!.confirm = patterns.commands!.confirm || [];
-              patterns.commands!.confirm.push(compiled);
-            }
-          } catch {
-            log('security-validator', `Invalid regex pattern skipped: "${value}"`);
-          }
-        } else if (currentSection === 'paths') {
-          if (currentSubSection === 'zeroAccess') {
-            patterns.paths!.zeroAccess = patterns.paths!.zeroAccess || [];
-            patterns.paths!.zeroAccess.push(expandPath(value));
-          } else if (currentSubSection === 'confirmWrite') {
-            patterns.paths!.confirmWrite = patterns.paths!.confirmWrite || [];
-            patterns.paths!.confirmWrite.push(value);
-          }
-        }
-      }
-    }
-
-    return patterns;
-  } catch (e) {
-    // Fail-closed: if we can't load patterns, we can't validate
-    log('security-validator', `Failed to load patterns — blocking all operations: ${e}`);
-    return null;
-  }
+  transcript_path?: string;
 }
 
 function validateInput(raw: unknown): HookInput | null {
@@ -107,33 +36,83 @@ function validateInput(raw: unknown): HookInput | null {
   return obj as unknown as HookInput;
 }
 
-function extractCommand(input: Record<string, unknown>): string | null {
-  return typeof input.command === 'string' ? input.command : null;
-}
+// ============================================================
+// Skill Guards (skill-rules.json type: "guard")
+// ============================================================
 
-function extractPath(input: Record<string, unknown>): string | null {
-  return typeof input.file_path === 'string' ? input.file_path : null;
-}
+const GUARD_DECISIONS: Record<Rule['enforcement'], 'allow' | 'ask' | 'block'> = {
+  suggest: 'allow',
+  inject: 'ask',
+  require: 'block',
+};
 
-function normalizeHomeTokens(command: string): string {
-  return command
-    .replace(/\$\{HOME\}/g, '~')
-    .replace(/\$HOME\b/g, '~');
-}
+const GUARD_SEVERITY = { allow: 0, ask: 1, block: 2 };
 
-function commandReferencesProtectedPath(command: string, protectedPaths: string[]): boolean {
-  const normalized = normalizeHomeTokens(command);
-  for (const protectedPath of protectedPaths) {
-    const expandedProtected = resolve(expandPath(protectedPath));
-    if (normalized.includes(expandedProtected)) return true;
+interface GuardDecision {
+  decision: 'ask' | 'block';
+  message: string;
+}
 
-    const home = resolve(expandPath('~'));
-    if (expandedProtected.startsWith(home)) {
-      const suffix = expandedProtected.slice(home.length);
-      if (suffix && normalized.includes(`~${suffix}`)) return true;
+/**
+ * Score guard rules against the pending tool call. The strictest matching
+ * enforcement wins; a guard is satisfied once its skill is loaded in the session.
+ * With settings.acknowledgment.blockGuards, a guard whose skill has an
+ * unacknowledged `require` blocks until the current response carries the marker.
+ */
+function evaluateSkillGuards(input: HookInput, targets: ToolTargets): GuardDecision | null {
+  const rules = loadSkillRules('security-validator');
+  if (!rules || !rules.rules.some(r => r.type === 'guard')) return null;
+
+  const ack = rules.settings.acknowledgment;
+  const unacknowledged = ack?.blockGuards ? loadSessionState(input.session_id).pending ?? {} : {};
+
+  const filePath = targets.paths[0] ?? null;
+  const command = targets.command;
+  // Guards see what is about to be written, not what is on disk
+  const pending = [input.tool_input.content, input.tool_input.new_string]
+    .filter((c): c is string => typeof c === 'string');
+
+  const matches = evaluateRules(rules, 'guard', {
+    text: [input.tool_name, filePath, command].filter(Boolean).join('\n'),
+    cwd: process.cwd(),
+    paths: filePath ? [filePath] : [],
+    contents: pending,
+    toolName: input.tool_name,
+  }).filter(m => GUARD_DECISIONS[m.rule.enforcement] !== 'allow' || unacknowledged[m.rule.skill]);
+
+  if (matches.length === 0) return null;
+
+  const entries = input.transcript_path ? readTranscriptTail(input.transcript_path) : [];
+  const response = Object.keys(unacknowledged).length > 0 ? lastAssistantText(entries) : '';
+  let strictest: GuardDecision | null = null;
+
+  for (const { rule } of matches) {
+    const skillDir = `skills/${rule.skill}/`;
+    // Loading the guarding skill itself must never be blocked
+    if (filePath?.includes(skillDir)) continue;
+
+    if (unacknowledged[rule.skill] && !isAcknowledged(response, rule.skill, ack)) {
+      strictest = {
+        decision: 'block',
+        message: `Blocked by skill guard "${rule.skill}": the requirement "${rule.suggestion}" is not acknowledged. ` +
+          `Include "${ackMarker(rule.skill, ack)}" in your response, then retry.`,
+      };
+      continue;
     }
+    if (GUARD_DECISIONS[rule.enforcement] === 'allow' || skillLoaded(entries, rule.skill)) continue;
+
+    const decision = GUARD_DECISIONS[rule.enforcement] as GuardDecision['decision'];
+    if (strictest && GUARD_SEVERITY[strictest.decision] >= GUARD_SEVERITY[decision]) continue;
+
+    strictest = {
+      decision,
+      message: decision === 'block'
+        ? `Blocked by skill guard "${rule.skill}": ${rule.suggestion}. Load ${skillDir}SKILL.md first, then retry.`
+        : `Skill guard "${rule.skill}": ${rule.suggestion}. Proceed without loading ${skillDir}SKILL.md?`,
+    };
   }
-  return false;
+
+  return strictest;
 }
 
 async function main(): Promise<void> {
@@ -146,97 +125,72 @@ async function main(): Promise<void> {
   }
 
   // Log unrecognized tools for drift detection
-  if (!KNOWN_TOOLS.has(input.tool_name)) {
+  if (!KNOWN_TOOLS.has(input.tool_name) && !isMcpTool(input.tool_name)) {
     log('security-validator', `Unknown tool_name: "${input.tool_name}" — allowing but unvalidated`);
   }
 
-  const patterns = loadPatterns();
-  if (!patterns) {
+  let policy: SecurityPolicy;
+  try {
+    policy = loadPolicy();
+  } catch (e) {
+    // Fail-closed: if we can't load the policy, we can't validate
+    const reason = e instanceof Error ? e.message : String(e);
+    log('security-validator', `Failed to load security policy — blocking all operations: ${reason}`);
     console.log(JSON.stringify({
       decision: 'block',
-      message: 'Security patterns failed to load — blocking all operations',
+      message: `Security policy failed to load — blocking all operations. ${reason}`,
     }));
     process.exit(0);
   }
 
-  // Check Bash commands
-  if (input.tool_name === 'Bash') {
-    const cmd = extractCommand(input.tool_input);
-    if (!cmd) {
-      // Fail-closed: Bash tool MUST have a string command
-      console.log(JSON.stringify({
-        decision: 'block',
-        message: 'Blocked: Bash command is missing or not a string',
-      }));
-      process.exit(0);
-    }
-
-    const cmdForPolicy = normalizeHomeTokens(cmd);
-
-    // Block patterns (pre-compiled at load time)
-    for (const { regex, source } of patterns.commands?.block || []) {
-      if (regex.test(cmdForPolicy)) {
-        console.log(JSON.stringify({
-          decision: 'block',
-          message: `Blocked by security policy: command matches "${source}"`,
-        }));
-        process.exit(0);
-      }
-    }
-
-    // Block direct protected path references in shell commands (absolute paths and $HOME forms).
-    if (commandReferencesProtectedPath(cmdForPolicy, patterns.paths?.zeroAccess || [])) {
-      console.log(JSON.stringify({
-        decision: 'block',
-        message: 'Blocked by security policy: command references a protected path',
-      }));
-      process.exit(0);
-    }
+  const targets = extractTargets(input.tool_name, input.tool_input);
+  if (input.tool_name === 'Bash' && !targets.command) {
+    // Fail-closed: Bash tool MUST have a string command
+    console.log(JSON.stringify({
+      decision: 'block',
+      message: 'Blocked: Bash command is missing or not a string',
+    }));
+    process.exit(0);
+  }
 
-    // Confirm patterns (pre-compiled at load time)
-    for (const { regex, source } of patterns.commands?.confirm || []) {
-      if (regex.test(cmdForPolicy)) {
-        console.log(JSON.stringify({
-          decision: 'ask',
-          message: `Security check: command matches "${source}". Proceed?`,
-        }));
-        process.exit(0);
-      }
-    }
+  const matches = evaluatePolicy(policy, input.tool_name, targets);
+  for (const match of matches) {
+    log('security-validator', `${input.tool_name} matched ${match.rule.action} ${describeMatch(match)}`);
   }
 
-  // Check file paths (Write, Edit, Read)
-  const filePath = extractPath(input.tool_input);
-  if (filePath) {
-    const expanded = resolve(expandPath(filePath));
-
-    // Zero access paths
-    for (const protected_path of patterns.paths?.zeroAccess || []) {
-      if (expanded.startsWith(resolve(protected_path))) {
-        console.log(JSON.stringify({
-          decision: 'block',
-          message: `Blocked: "${filePath}" is in a protected path`,
-        }));
-        process.exit(0);
-      }
-    }
+  const deciding = decidingMatch(matches);
+  if (deciding?.rule.action === 'block') {
+    console.log(JSON.stringify({
+      decision: 'block',
+      message: `Blocked by security policy ${describeMatch(deciding)}`,
+    }));
+    process.exit(0);
+  }
+  if (deciding?.rule.action === 'ask') {
+    console.log(JSON.stringify({
+      decision: 'ask',
+      message: `Security check — ${describeMatch(deciding)}. Proceed?`,
+    }));
+    process.exit(0);
+  }
+  // warn rules let the call through with a visible note; log rules only reach the log above
+  const warnings = matches.filter(m => m.rule.action === 'warn').map(m => `Security warning — ${describeMatch(m)}`);
 
-    // Confirm write paths (use resolved path for consistency with zeroAccess)
-    if (input.tool_name === 'Write' || input.tool_name === 'Edit') {
-      for (const confirmPath of patterns.paths?.confirmWrite || []) {
-        if (expanded.includes(confirmPath)) {
-          console.log(JSON.stringify({
-            decision: 'ask',
-            message: `Security check: writing to "${filePath}". Proceed?`,
-          }));
-          process.exit(0);
-        }
-      }
-    }
+  // Skill guards are advisory policy layered on top of security patterns:
+  // a broken skill-rules.json must not block every tool call, so fail open here.
+  let guard: GuardDecision | null = null;
+  try {
+    guard = evaluateSkillGuards(input, targets);
+  } catch (e) {
+    log('security-validator', `Skill guard evaluation failed — skipping: ${e}`);
+  }
+  if (guard) {
+    console.log(JSON.stringify(guard));
+    process.exit(0);
   }
 
   // Default: allow
-  console.log(JSON.stringify({ continue: true }));
+  console.log(JSON.stringify(warnings.length > 0 ? { continue: true, systemMessage: warnings.join('\n') } : { continue: true }));
   process.exit(0);
 }
 
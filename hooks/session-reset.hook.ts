@@ -0,0 +1,35 @@
+#!/usr/bin/env bun
+/**
+ * session-reset.hook.ts — Session State Reset (PreCompact, SessionEnd)
+ *
+ * PURPOSE: Keep per-session skill activation memory honest. Compaction drops
+ *          previously injected skill content, so activations are forgotten and
+ *          skills can inject again. At session end the state file is removed.
+ * TRIGGER: PreCompact, SessionEnd
+ * INPUT:   { session_id, hook_event_name }
+ * OUTPUT:  None
+ * EXIT:    Always 0
+ */
+
+import { readStdin } from './lib/stdin.ts';
+import { resetSessionState, deleteSessionState } from './lib/session-state.ts';
+
+interface HookInput {
+  session_id: string;
+  hook_event_name?: string;
+}
+
+async function main(): Promise<void> {
+  const input = await readStdin<HookInput>(100);
+  if (!input?.session_id) process.exit(0);
+
+  if (input.hook_event_name === 'SessionEnd') {
+    deleteSessionState(input.session_id);
+  } else {
+    resetSessionState(input.session_id);
+  }
+
+  process.exit(0);
+}
+
+main().catch(() => process.exit(0));
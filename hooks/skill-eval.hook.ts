@@ -3,323 +3,298 @@
  * skill-eval.hook.ts — Skill Activation Evaluator (UserPromptSubmit)
  *
  * PURPOSE: Scores user prompts against skill-rules.json using weighted
- *          multi-factor scoring. Matched skills are injected into context.
+ *          multi-factor scoring. Matched skills are injected into context
+ *          after implies / conflictsWith / group resolution.
  * TRIGGER: UserPromptSubmit
- * INPUT:   { prompt, session_id }
+ * INPUT:   { prompt, session_id, transcript_path? }
+ *          transcript_path feeds contentPatterns (recently touched files) and,
+ *          with settings.conversation, decayed scoring of earlier turns.
  * OUTPUT:  <system-reminder> with skill suggestions (if any match)
  * EXIT:    Always 0 (never blocks the user)
+ *
+ * EXPLAIN: Per-rule score breakdown for tuning skill-rules.json.
+ *          CLI:  bun hooks/skill-eval.hook.ts --explain "fix the reducer in store.ts"
+ *          Hook: SKILL_EVAL_EXPLAIN=1 writes the same report to stderr.
+ *
+ * RULES:   bun hooks/skill-eval.hook.ts --rules prints the global / project /
+ *          local rule layers, where each rule came from, and the merged result.
+ *
+ * TELEMETRY: Each evaluated prompt appends a record to
+ *          memory/telemetry/skill-eval.jsonl (settings.telemetry);
+ *          bun scripts/skill-report.ts summarizes it.
  */
 
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { existsSync, readdirSync } from 'fs';
+import { join, resolve, basename, relative, isAbsolute } from 'path';
 import { readStdin } from './lib/stdin.ts';
-import { getFrameworkDir } from './lib/paths.ts';
-import { log } from './lib/logger.ts';
-
-// ============================================================
-// Types
-// ============================================================
-
-interface Weights {
-  keyword: number;
-  pattern: number;
-  directory: number;
-  intent: number;
-  filePath: number;
-  content: number;
-}
-
-interface Triggers {
-  keywords?: string[];
-  patterns?: string[];
-  fileTypes?: string[];
-  directories?: string[];
-  intents?: string[];
-  contentPatterns?: string[];
-}
-
-interface Rule {
-  skill: string;
-  type: 'proactive' | 'reactive' | 'guard';
-  enforcement: 'suggest' | 'inject' | 'require';
-  priority: number;
-  triggers: Triggers;
-  weights?: Partial<Weights>;
-  threshold?: number;
-  suggestion: string;
-}
-
-interface SkillRules {
-  version: string;
-  defaults: { weights: Weights; threshold: number };
-  rules: Rule[];
-  exclusions: { prefixes: string[]; patterns: string[] };
-  settings: { maxSuggestions: number; showScores: boolean };
-}
+import { expandPath, frameworkPath } from './lib/paths.ts';
+import { readCached, configureReadCache } from './lib/read-cache.ts';
+import { readTranscriptTail, recentToolFiles, recentTurns, type TranscriptEntry } from './lib/transcript.ts';
+import {
+  loadSkillRules,
+  explainRules,
+  matchesOf,
+  exclusionReason,
+  formatMatches,
+  resolveRelationships,
+  usesSemantic,
+  type SkillRules,
+  type EvalContext,
+  type PathSettings,
+} from './lib/skill-rules.ts';
+import { formatExplanation, formatPromptExclusion } from './lib/explain.ts';
+import { loadLayeredRules, formatLayeredRules, layerSkillDirs } from './lib/rule-layers.ts';
+import { findInvalidPatterns } from './lib/rule-cache.ts';
+import { loadSkillIndex, scoreSkills } from './lib/skill-index.ts';
+import { loadSessionState, saveSessionState, type SessionState } from './lib/session-state.ts';
+import { loadContextBudget } from './lib/context-budget.ts';
+import { changedFiles } from './lib/git-status.ts';
+import { appendTelemetry, candidateScores, selectedSkills, telemetryRecord } from './lib/telemetry.ts';
 
 interface HookInput {
   prompt: string;
   session_id: string;
-}
-
-interface ScoredMatch {
-  rule: Rule;
-  normalizedScore: number;
-  finalScore: number;
+  transcript_path?: string;
 }
 
 // ============================================================
-// Scoring Engine
+// Content Files (for contentPatterns)
 // ============================================================
 
-function escapeRegex(s: string): string {
-  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
+// Matches path-like tokens with an extension: "store.ts", "src/app/page.tsx"
+const FILE_MENTION = /(?:^|[\s"'`(\[])((?:\.{0,2}\/)?(?:[\w.-]+\/)*[\w-][\w.-]*\.[a-z0-9]{1,10})(?=$|[\s"'`)\],:;!?.])/gi;
 
-function matchKeywords(prompt: string, keywords: string[]): number {
-  const lower = prompt.toLowerCase();
-  let matches = 0;
-  for (const kw of keywords) {
-    const regex = new RegExp(`\\b${escapeRegex(kw)}\\b`, 'i');
-    if (regex.test(lower)) matches++;
-  }
-  return matches;
-}
-
-function matchPatterns(prompt: string, patterns: string[]): number {
-  let matches = 0;
-  for (const pat of patterns) {
-    try {
-      if (new RegExp(pat, 'i').test(prompt)) matches++;
-    } catch { /* invalid regex — skip */ }
-  }
-  return matches;
-}
+const SEARCH_SKIP_DIRS = new Set(['node_modules', 'dist', 'build', 'coverage']);
+const SEARCH_MAX_DEPTH = 4;
+const SEARCH_MAX_ENTRIES = 2000;
 
-function matchDirectories(cwd: string, directories: string[]): number {
-  let matches = 0;
-  for (const dir of directories) {
-    if (cwd.includes(dir)) matches++;
+function extractFileMentions(prompt: string): string[] {
+  const mentions: string[] = [];
+  for (const m of prompt.matchAll(FILE_MENTION)) {
+    if (!mentions.includes(m[1])) mentions.push(m[1]);
   }
-  return matches;
+  return mentions;
 }
 
-const INTENT_KEYWORDS: Record<string, string[]> = {
-  debug:    ['bug', 'error', 'fix', 'broken', 'crash', 'fail', 'debug', 'issue'],
-  create:   ['create', 'new', 'add', 'build', 'scaffold', 'generate', 'init'],
-  deploy:   ['deploy', 'ship', 'release', 'publish', 'push', 'launch'],
-  test:     ['test', 'spec', 'coverage', 'assert', 'expect', 'tdd'],
-  refactor: ['refactor', 'clean', 'reorganize', 'restructure', 'simplify'],
-  research: ['research', 'investigate', 'explore', 'understand', 'analyze'],
-  review:   ['review', 'feedback', 'check', 'audit', 'inspect'],
-  extend:   ['extend', 'plugin', 'hook', 'skill', 'customize', 'configure'],
-  capture:  ['note', 'capture', 'remember', 'save', 'jot', 'log', 'record'],
-};
-
-function matchIntents(prompt: string, intents: string[]): number {
-  const lower = prompt.toLowerCase();
-  let matches = 0;
-
-  for (const intent of intents) {
-    const family = INTENT_KEYWORDS[intent];
-    if (!family) continue;
-    for (const word of family) {
-      if (lower.includes(word)) {
-        matches++;
-        break;
+/**
+ * Bounded breadth-first search for a bare filename under cwd.
+ * Skips dot-directories and build output; gives up after SEARCH_MAX_ENTRIES.
+ */
+function findByBasename(cwd: string, name: string): string | null {
+  let queue: string[] = [cwd];
+  let seen = 0;
+
+  for (let depth = 0; depth <= SEARCH_MAX_DEPTH && queue.length > 0; depth++) {
+    const next: string[] = [];
+    for (const dir of queue) {
+      let entries;
+      try {
+        entries = readdirSync(dir, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+      for (const entry of entries) {
+        if (++seen > SEARCH_MAX_ENTRIES) return null;
+        if (entry.isFile() && entry.name === name) return join(dir, entry.name);
+        if (entry.isDirectory() && !entry.name.startsWith('.') && !SEARCH_SKIP_DIRS.has(entry.name)) {
+          next.push(join(dir, entry.name));
+        }
       }
     }
+    queue = next;
   }
-  return matches;
+  return null;
 }
 
-function matchFileTypes(prompt: string, fileTypes: string[]): number {
-  let matches = 0;
-  for (const ft of fileTypes) {
-    if (prompt.includes(ft)) matches++;
+/**
+ * Resolve the files whose contents feed the content dimension: files named
+ * in the prompt first, then files the session touched recently.
+ */
+function resolveContentFiles(prompt: string, cwd: string, recent: string[]): string[] {
+  const files: string[] = [];
+  const add = (p: string | null) => {
+    if (p && !files.includes(p)) files.push(p);
+  };
+
+  for (const mention of extractFileMentions(prompt)) {
+    const direct = resolve(cwd, expandPath(mention));
+    if (existsSync(direct)) {
+      add(direct);
+    } else if (!mention.includes('/')) {
+      add(recent.find(r => basename(r) === mention) ?? findByBasename(cwd, mention));
+    }
   }
-  return matches;
+
+  for (const r of recent) add(resolve(cwd, r));
+  return files;
 }
 
-function scoreRule(
-  prompt: string,
-  rule: Rule,
-  defaultWeights: Weights,
-  defaultThreshold: number,
-  cwd: string,
-): ScoredMatch | null {
-  const weights: Weights = { ...defaultWeights, ...rule.weights };
-  const threshold = rule.threshold ?? defaultThreshold;
-  const triggers = rule.triggers;
-
-  const dims: { count: number; total: number; weight: number }[] = [];
-
-  if (triggers.keywords?.length) {
-    dims.push({
-      count: matchKeywords(prompt, triggers.keywords),
-      total: triggers.keywords.length,
-      weight: weights.keyword,
-    });
-  }
-  if (triggers.patterns?.length) {
-    dims.push({
-      count: matchPatterns(prompt, triggers.patterns),
-      total: triggers.patterns.length,
-      weight: weights.pattern,
-    });
-  }
-  if (triggers.directories?.length) {
-    dims.push({
-      count: matchDirectories(cwd, triggers.directories),
-      total: triggers.directories.length,
-      weight: weights.directory,
-    });
-  }
-  if (triggers.intents?.length) {
-    dims.push({
-      count: matchIntents(prompt, triggers.intents),
-      total: triggers.intents.length,
-      weight: weights.intent,
-    });
+function loadContents(files: string[]): string[] {
+  const contents: string[] = [];
+  for (const file of files) {
+    const content = readCached(file);
+    if (content !== null) contents.push(content);
   }
-  if (triggers.fileTypes?.length) {
-    dims.push({
-      count: matchFileTypes(prompt, triggers.fileTypes),
-      total: triggers.fileTypes.length,
-      weight: weights.filePath,
-    });
-  }
-  // contentPatterns: planned extension point.
-  // Production implementations can match against file content via a read cache.
-  // Weight: weights.content. Not yet wired — add when file-aware scoring is needed.
-
-  if (dims.length === 0) return null;
-
-  const totalMatches = dims.reduce((s, d) => s + d.count, 0);
-  if (totalMatches === 0) return null;
+  return contents;
+}
 
-  const rawScore = dims.reduce((s, d) => s + d.count * d.weight, 0);
-  const maxScore = dims.reduce((s, d) => s + d.total * d.weight, 0);
-  if (maxScore === 0) return null;
-  const normalizedScore = (rawScore / maxScore) * 100;
+// ============================================================
+// Working Paths (for directories / fileTypes)
+// ============================================================
 
-  if (normalizedScore < threshold) return null;
+const DEFAULT_MAX_PATHS = 50;
 
-  const priority = rule.priority ?? 5;
-  const finalScore = normalizedScore * (priority / 10);
+// Session paths are usually absolute; make them cwd-relative like git's so
+// a trigger such as "skills/" can't match the directory the repo lives in
+function relativeToCwd(cwd: string, path: string): string {
+  if (!isAbsolute(path)) return path;
+  const rel = relative(cwd, path);
+  return rel.startsWith('..') || isAbsolute(rel) ? path : rel;
+}
 
-  return { rule, normalizedScore, finalScore };
+/**
+ * Files the directory and file-type dimensions match against: the working
+ * tree's changes from git, then files the session touched, deduplicated.
+ */
+function listWorkingPaths(cwd: string, entries: TranscriptEntry[], settings: PathSettings): string[] {
+  const max = settings.maxFiles ?? DEFAULT_MAX_PATHS;
+  const paths: string[] = [];
+  const add = (p: string) => {
+    if (paths.length < max && !paths.includes(p)) paths.push(p);
+  };
+
+  if (settings.git !== false) changedFiles(cwd).forEach(add);
+  if (settings.session !== false) recentToolFiles(entries, max).forEach(p => add(relativeToCwd(cwd, p)));
+  return paths;
 }
 
 // ============================================================
-// Exclusion Check
+// Main
 // ============================================================
 
-function isExcluded(prompt: string, exclusions: SkillRules['exclusions']): boolean {
-  const trimmed = prompt.trim().toLowerCase();
+const EXPLAIN_FLAG = '--explain';
+const RULES_FLAG = '--rules';
 
-  for (const prefix of exclusions.prefixes) {
-    if (trimmed.startsWith(prefix.toLowerCase())) return true;
+const DEFAULT_DECAY = 0.5;
+
+function buildContext(input: HookInput, rules: SkillRules, state?: SessionState): EvalContext {
+  const cwd = process.cwd();
+  const conversation = rules.settings.conversation ?? {};
+  const pathSettings = rules.settings.paths ?? {};
+  const proactive = rules.rules.filter(r => (r.type ?? 'proactive') === 'proactive');
+  const usesContent = proactive.some(r => r.triggers.contentPatterns?.length);
+  const usesPaths = proactive.some(r => r.triggers.directories?.length || r.triggers.fileTypes?.length);
+
+  // Read the transcript at most once, and only when something needs it
+  let entries: TranscriptEntry[] = [];
+  const needsTranscript = usesContent || (conversation.turns ?? 0) > 0 || (usesPaths && pathSettings.session !== false);
+  if (input.transcript_path && needsTranscript) {
+    entries = readTranscriptTail(input.transcript_path, conversation.tailBytes);
   }
 
-  for (const pat of exclusions.patterns) {
-    try {
-      if (new RegExp(pat, 'i').test(trimmed)) return true;
-    } catch { /* skip */ }
+  const workingPaths = usesPaths ? listWorkingPaths(cwd, entries, pathSettings) : [];
+
+  // Only touch the filesystem when some rule actually scores on file content
+  let contents: string[] = [];
+  if (usesContent) {
+    const contentSettings = rules.settings.content ?? {};
+    configureReadCache(contentSettings);
+    const recent = recentToolFiles(entries, contentSettings.recentFiles ?? 5);
+    contents = loadContents(resolveContentFiles(input.prompt, cwd, recent));
   }
 
-  return false;
-}
+  const relevance = usesSemantic(rules)
+    ? scoreSkills(loadSkillIndex(layerSkillDirs()), input.prompt, rules.settings.semantic?.saturation ?? 4)
+    : undefined;
 
-// ============================================================
-// Skill Context Loader (for "inject" enforcement)
-// ============================================================
+  const decay = conversation.decay ?? DEFAULT_DECAY;
+  const history = recentTurns(entries, conversation.turns ?? 0, conversation.roles, input.prompt)
+    .map(t => ({ text: t.text, distance: t.distance, weight: decay ** t.distance }));
 
-function sanitizeContent(content: string): string {
-  // Prevent breaking out of <system-reminder> context
-  return content.replace(/<\/?system-reminder>/gi, '');
+  return { text: input.prompt, cwd, paths: [], contents, relevance, history, sticky: state?.active, workingPaths };
 }
 
-function loadSkillContext(skillName: string): string | null {
-  const skillPath = join(getFrameworkDir(), 'skills', skillName, 'SKILL.md');
-  if (!existsSync(skillPath)) return null;
+// Outside Claude the report is the output; inside a hook it must stay out of the context
+function report(text: string, toStdout: boolean): void {
+  if (toStdout) console.log(text);
+  else process.stderr.write(`${text}\n`);
+}
 
-  try {
-    return sanitizeContent(readFileSync(skillPath, 'utf-8'));
-  } catch {
-    return null;
+// Run from a checkout without Claude's env: evaluate this repo's rules
+function useCheckoutIfUnset(): void {
+  if (!process.env.CLAUDE_PROJECT_DIR && !process.env.FRAMEWORK_DIR) {
+    process.env.FRAMEWORK_DIR = join(import.meta.dir, '..');
   }
 }
 
-// ============================================================
-// Main
-// ============================================================
-
 async function main(): Promise<void> {
-  const input = await readStdin<HookInput>(100);
-  if (!input?.prompt) process.exit(0);
-
-  const rulesPath = join(getFrameworkDir(), 'skills', 'skill-rules.json');
-  if (!existsSync(rulesPath)) {
-    log('skill-eval', 'No skill-rules.json found, skipping');
+  const started = performance.now();
+  if (process.argv[2] === RULES_FLAG) {
+    useCheckoutIfUnset();
+    const layered = loadLayeredRules('skill-eval');
+    console.log(layered ? formatLayeredRules(layered, findInvalidPatterns(layered.rules)) : 'No skill-rules.json found in any layer');
     process.exit(0);
   }
 
-  let rules: SkillRules;
-  try {
-    rules = JSON.parse(readFileSync(rulesPath, 'utf-8'));
-  } catch (e) {
-    log('skill-eval', `Failed to parse skill-rules.json: ${e}`);
+  const cliExplain = process.argv[2] === EXPLAIN_FLAG;
+  const input: HookInput | null = cliExplain
+    ? { prompt: process.argv.slice(3).join(' '), session_id: '' }
+    : await readStdin<HookInput>(100);
+  if (!input?.prompt) {
+    if (cliExplain) report(`Usage: bun hooks/skill-eval.hook.ts ${EXPLAIN_FLAG} "<prompt>"`, false);
     process.exit(0);
   }
+  const explain = cliExplain || process.env.SKILL_EVAL_EXPLAIN === '1';
 
-  if (isExcluded(input.prompt, rules.exclusions)) process.exit(0);
-
-  const cwd = process.cwd();
-  const matches: ScoredMatch[] = [];
+  if (cliExplain) useCheckoutIfUnset();
 
-  for (const rule of rules.rules) {
-    if (rule.type !== 'proactive') continue;
-    const scored = scoreRule(input.prompt, rule, rules.defaults.weights, rules.defaults.threshold, cwd);
-    if (scored) matches.push(scored);
-  }
+  const rules = loadSkillRules('skill-eval');
+  if (!rules) process.exit(0);
 
-  if (matches.length === 0) process.exit(0);
+  // A dry run from the CLI must not touch session state or telemetry
+  const telemetry = rules.settings.telemetry ?? {};
+  const record = !cliExplain && telemetry.enabled !== false
+    ? (fields: Parameters<typeof telemetryRecord>[2]) =>
+        appendTelemetry(telemetryRecord(input.session_id, input.prompt, fields, telemetry), telemetry)
+    : () => {};
 
-  matches.sort((a, b) => b.finalScore - a.finalScore);
-  const top = matches.slice(0, rules.settings.maxSuggestions);
+  const exclusion = exclusionReason(input.prompt, rules.exclusions);
+  if (exclusion) {
+    if (explain) report(formatPromptExclusion(input.prompt, exclusion), cliExplain);
+    record({ excluded: exclusion, candidates: [], selected: [], ms: performance.now() - started });
+    process.exit(0);
+  }
 
-  const parts: string[] = [];
+  const state = input.session_id && !cliExplain ? loadSessionState(input.session_id) : undefined;
+  const ctx = buildContext(input, rules, state);
+  const evaluations = explainRules(rules, 'proactive', ctx);
+  const resolution = resolveRelationships(matchesOf(evaluations), rules);
 
-  for (const match of top) {
-    const scoreStr = rules.settings.showScores
-      ? ` [score: ${match.normalizedScore.toFixed(0)}]`
-      : '';
+  if (explain) {
+    report(formatExplanation(input.prompt, evaluations, resolution, rules.settings), cliExplain);
+    if (cliExplain) process.exit(0);
+  }
 
-    switch (match.rule.enforcement) {
-      case 'inject': {
-        const ctx = loadSkillContext(match.rule.skill);
-        if (ctx) {
-          parts.push(`--- Auto-loaded skill: ${match.rule.skill}${scoreStr} ---\n${ctx}`);
-        } else {
-          parts.push(`Skill suggestion: ${match.rule.suggestion}${scoreStr}`);
-        }
-        break;
-      }
-      case 'require':
-        parts.push(`REQUIRED: ${match.rule.suggestion}${scoreStr}\nPlease acknowledge before proceeding.`);
-        break;
-      case 'suggest':
-      default:
-        parts.push(`Skill suggestion: ${match.rule.suggestion}${scoreStr}`);
-        break;
-    }
+  if (state) state.prompt++;
+
+  const parts = formatMatches(resolution.matches, rules.settings, {
+    state,
+    prompt: input.prompt,
+    budget: loadContextBudget('skill-eval'),
+    escalate: true,
+  });
+  const selected = resolution.matches.slice(0, rules.settings.maxSuggestions);
+  if (state) {
+    state.active = selected.map(m => m.rule.skill);
+    saveSessionState(input.session_id, state);
   }
 
   if (parts.length > 0) {
     console.log(`<system-reminder>\n${parts.join('\n\n')}\n</system-reminder>`);
   }
 
+  record({ candidates: candidateScores(evaluations), selected: selectedSkills(selected), ms: performance.now() - started });
+
   process.exit(0);
 }
 
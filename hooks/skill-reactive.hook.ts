@@ -0,0 +1,88 @@
+#!/usr/bin/env bun
+/**
+ * skill-reactive.hook.ts — Reactive Skill Evaluator (PostToolUse)
+ *
+ * PURPOSE: Scores completed tool calls against "reactive" rules in
+ *          skill-rules.json. Matched skills are suggested or injected right
+ *          after the tool runs (e.g. a migrations skill after a Write to db/migrations/).
+ * TRIGGER: PostToolUse
+ * INPUT:   { tool_name, tool_input, tool_output, session_id }
+ * OUTPUT:  <system-reminder> with skill suggestions (if any match)
+ * EXIT:    Always 0 (never blocks)
+ */
+
+import { resolve } from 'path';
+import { readStdin } from './lib/stdin.ts';
+import { readCached, configureReadCache } from './lib/read-cache.ts';
+import { loadSkillRules, evaluateRules, formatMatches } from './lib/skill-rules.ts';
+import { loadSessionState, saveSessionState } from './lib/session-state.ts';
+import { loadContextBudget } from './lib/context-budget.ts';
+
+interface HookInput {
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  tool_output?: unknown;
+  tool_response?: unknown;
+  session_id: string;
+}
+
+// Tool output can be large (file dumps, test logs) — only the head is scored
+const MAX_OUTPUT_CHARS = 8 * 1024;
+
+function stringField(obj: Record<string, unknown>, key: string): string | null {
+  return typeof obj[key] === 'string' ? obj[key] as string : null;
+}
+
+function outputText(input: HookInput): string {
+  const output = input.tool_output ?? input.tool_response;
+  if (output === undefined || output === null) return '';
+  const text = typeof output === 'string' ? output : JSON.stringify(output);
+  return text.slice(0, MAX_OUTPUT_CHARS);
+}
+
+async function main(): Promise<void> {
+  const input = await readStdin<HookInput>(100);
+  if (!input?.tool_name || !input.tool_input) process.exit(0);
+
+  const rules = loadSkillRules('skill-reactive');
+  if (!rules) process.exit(0);
+  if (!rules.rules.some(r => r.type === 'reactive')) process.exit(0);
+
+  const cwd = process.cwd();
+  const filePath = stringField(input.tool_input, 'file_path');
+  const command = stringField(input.tool_input, 'command');
+
+  // Keyword/pattern/intent dimensions see the whole tool call as one text
+  const text = [input.tool_name, filePath, command, outputText(input)]
+    .filter(Boolean)
+    .join('\n');
+
+  const paths = filePath ? [filePath] : [];
+  let contents: string[] = [];
+  if (filePath && rules.rules.some(r => r.type === 'reactive' && r.triggers.contentPatterns?.length)) {
+    configureReadCache(rules.settings.content ?? {});
+    const content = readCached(resolve(cwd, filePath));
+    if (content !== null) contents = [content];
+  }
+
+  const matches = evaluateRules(rules, 'reactive', {
+    text,
+    cwd,
+    paths,
+    contents,
+    toolName: input.tool_name,
+  });
+  if (matches.length === 0) process.exit(0);
+
+  const state = input.session_id ? loadSessionState(input.session_id) : undefined;
+  const parts = formatMatches(matches, rules.settings, { state, budget: loadContextBudget('skill-reactive') });
+  if (state) saveSessionState(input.session_id, state);
+
+  if (parts.length > 0) {
+    console.log(`<system-reminder>\n${parts.join('\n\n')}\n</system-reminder>`);
+  }
+
+  process.exit(0);
+}
+
+main().catch(() => process.exit(0));
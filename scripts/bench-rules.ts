@@ -0,0 +1,169 @@
+#!/usr/bin/env bun
+/**
+ * bench-rules.ts — Benchmark skill-eval against a large generated rule set.
+ *
+ * Writes N synthetic rules (keywords, patterns, intents, directories, file
+ * types and exclusions, like real ones) to a temporary framework dir, then
+ * measures:
+ *   - rule loading: a cold compile (layers merged, regexes validated, cache
+ *     written) against a warm load from memory/cache/compiled-rules.json
+ *   - scoring: explainRules + resolveRelationships per prompt, in process
+ *   - the hook end to end: `bun hooks/skill-eval.hook.ts` per prompt, the
+ *     number that has to fit UserPromptSubmit's 100ms budget
+ *
+ * Usage: bun scripts/bench-rules.ts [--rules 250] [--runs 10] [--max-ms 100]
+ *   --max-ms exit 1 when the hook's p95 exceeds this many ms (for CI)
+ */
+
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { compileRules, loadCompiledRules } from '../hooks/lib/rule-cache.ts';
+import { explainRules, matchesOf, resolveRelationships, type EvalContext } from '../hooks/lib/skill-rules.ts';
+
+interface Options {
+  rules: number;
+  runs: number;
+  maxMs: number | null;
+}
+
+const HOOK = join(import.meta.dir, '..', 'hooks', 'skill-eval.hook.ts');
+
+const VERBS = ['deploy', 'migrate', 'review', 'refactor', 'document', 'profile', 'audit', 'test', 'release', 'debug'];
+const NOUNS = ['api', 'schema', 'cache', 'queue', 'billing', 'auth', 'search', 'upload', 'metrics', 'gateway',
+  'invoice', 'session', 'webhook', 'scheduler', 'ledger', 'report', 'export', 'import', 'tenant', 'pipeline'];
+
+const PROMPTS = [
+  'deploy the billing api to staging',
+  'refactor the auth session cache and add tests',
+  'why is the webhook queue slow? profile the scheduler',
+  'write docs for the export pipeline',
+  'what time is it',
+];
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { rules: 250, runs: 10, maxMs: null };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--rules') options.rules = Number(argv[++i]);
+    else if (arg === '--runs') options.runs = Number(argv[++i]);
+    else if (arg === '--max-ms') options.maxMs = Number(argv[++i]);
+  }
+  return options;
+}
+
+// ============================================================
+// Fixture
+// ============================================================
+
+function generateRules(count: number): Record<string, unknown> {
+  const rules = Array.from({ length: count }, (_, i) => {
+    const verb = VERBS[i % VERBS.length];
+    const noun = NOUNS[i % NOUNS.length];
+    const other = NOUNS[(i * 7 + 3) % NOUNS.length];
+    return {
+      skill: `Skill${i}`,
+      type: 'proactive',
+      enforcement: i % 10 === 0 ? 'inject' : 'suggest',
+      priority: 1 + (i % 9),
+      triggers: {
+        keywords: [verb, noun, `${noun}s`, `${verb} ${noun}`, other, `${other}-${i}`],
+        patterns: [`\\b${verb}\\w*\\s+(the\\s+)?${noun}`, `${noun}[._-]?${other}`, `\\bskill${i}\\b`],
+        intents: [i % 2 ? 'create' : 'debug', i % 3 ? 'deploy' : 'review'],
+        directories: [`src/${noun}/`],
+        fileTypes: [`.${noun}.ts`],
+        exclude: { patterns: [`\\bnot\\s+${verb}`] },
+      },
+      suggestion: `Use Skill${i}`,
+    };
+  });
+
+  return {
+    version: '1.0',
+    defaults: {
+      weights: { keyword: 2, pattern: 3, directory: 5, intent: 4, filePath: 4, content: 3 },
+      threshold: 25,
+    },
+    rules,
+    intents: {
+      create: { words: ['create', 'new', 'add', 'build'], patterns: ['\\bwrite\\s+\\w+'] },
+      debug: { words: ['bug', 'error', 'fix', 'slow'], patterns: ['\\bwhy\\s+(is|does)\\b'] },
+      deploy: { words: ['deploy', 'ship', 'release'] },
+      review: { words: ['review', 'audit', 'check'] },
+    },
+    exclusions: { prefixes: ['/', 'thanks'], patterns: ['^(ok|lgtm)$'] },
+    settings: { maxSuggestions: 3, showScores: false, telemetry: { enabled: false } },
+  };
+}
+
+// ============================================================
+// Measurement
+// ============================================================
+
+function stats(samples: number[]): string {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const avg = sorted.reduce((s, n) => s + n, 0) / sorted.length;
+  return `avg ${avg.toFixed(2)} ms | p95 ${p95(sorted).toFixed(2)} ms | max ${sorted[sorted.length - 1].toFixed(2)} ms`;
+}
+
+function p95(sorted: number[]): number {
+  return sorted[Math.min(sorted.length - 1, Math.ceil(0.95 * sorted.length) - 1)];
+}
+
+function time(fn: () => void): number {
+  const start = performance.now();
+  fn();
+  return performance.now() - start;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  console.log('Captain Hooks — Rule Benchmark\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'captain-hooks-bench-'));
+  mkdirSync(join(dir, 'skills'));
+  writeFileSync(join(dir, 'skills', 'skill-rules.json'), JSON.stringify(generateRules(options.rules)));
+  // Only the generated rules: no project env, no global layer
+  const env = { ...process.env, CLAUDE_PROJECT_DIR: dir, FRAMEWORK_DIR: dir, CLAUDE_CONFIG_DIR: dir };
+  Object.assign(process.env, env);
+
+  try {
+    const cold = Array.from({ length: options.runs }, () => time(() => compileRules('bench')));
+    loadCompiledRules('bench');
+    const warm = Array.from({ length: options.runs }, () => time(() => loadCompiledRules('bench')));
+    const rules = loadCompiledRules('bench')!.rules;
+
+    const scoring: number[] = [];
+    for (let run = 0; run < options.runs; run++) {
+      for (const prompt of PROMPTS) {
+        const ctx: EvalContext = { text: prompt, cwd: dir, paths: [], contents: [] };
+        scoring.push(time(() => resolveRelationships(matchesOf(explainRules(rules, 'proactive', ctx)), rules)));
+      }
+    }
+
+    const hook: number[] = [];
+    for (let run = 0; run < options.runs; run++) {
+      const prompt = PROMPTS[run % PROMPTS.length];
+      hook.push(time(() => {
+        Bun.spawnSync(['bun', HOOK], { stdin: Buffer.from(JSON.stringify({ prompt, session_id: '' })), cwd: dir, env });
+      }));
+    }
+
+    console.log(`Rules: ${options.rules} | Prompts: ${PROMPTS.length} | Runs: ${options.runs}\n`);
+    console.log(`  Compile (merge + validate)   ${stats(cold)}`);
+    console.log(`  Load from cache              ${stats(warm)}`);
+    console.log(`  Score one prompt             ${stats(scoring)}`);
+    console.log(`  skill-eval hook (process)    ${stats(hook)}`);
+
+    const hookP95 = p95([...hook].sort((a, b) => a - b));
+    if (options.maxMs !== null && hookP95 > options.maxMs) {
+      console.log(`\nBenchmark FAILED: hook p95 ${hookP95.toFixed(2)} ms > ${options.maxMs} ms`);
+      process.exit(1);
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+  process.exit(0);
+}
+
+main();
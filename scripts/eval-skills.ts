@@ -0,0 +1,418 @@
+#!/usr/bin/env bun
+/**
+ * eval-skills.ts — Offline evaluation of skill-rules.json against a labeled corpus.
+ *
+ * Runs the same scoring as skill-eval.hook.ts (isExcluded + explainRule +
+ * resolveRelationships, top maxSuggestions selected) over every prompt in a
+ * JSONL corpus and reports precision, recall and F1 per rule. With --tune it also sweeps the default
+ * threshold and each rule's threshold and weights (semantic too, when it is
+ * on), and prints the values that improve micro-averaged F1.
+ *
+ * Corpus format (one JSON object per line, blank lines ignored):
+ *   { "prompt": "add a hook for linting", "expected": ["CreateSkill"] }
+ *   { "prompt": "fix the login bug", "expected": [] }
+ * Optional per-case fields: "cwd" and "paths" (for directory / fileType triggers).
+ *
+ * Usage: bun scripts/eval-skills.ts [corpus.jsonl] [--rules path] [--tune] [--min-f1 0.8] [--min-skill-f1 0.8]
+ *   corpus         default: skills/skill-eval-corpus.jsonl
+ *   --rules        default: skill-rules.json next to the corpus
+ *   --min-f1       exit 1 when micro F1 is below this value (for CI)
+ *   --min-skill-f1 exit 1 when any single rule's F1 is below this value, so one
+ *                  skill's regression can't hide in the average
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join, dirname, resolve } from 'path';
+import {
+  explainRule,
+  isExcluded,
+  resolveRelationships,
+  usesSemantic,
+  type EvalContext,
+  type Rule,
+  type RuleEvaluation,
+  type SkillRules,
+  type Weights,
+} from '../hooks/lib/skill-rules.ts';
+import { loadSkillIndex, scoreSkills } from '../hooks/lib/skill-index.ts';
+
+interface EvalCase {
+  line: number;
+  prompt: string;
+  expected: string[];
+  cwd?: string;
+  paths?: string[];
+}
+
+interface Counts {
+  tp: number;
+  fp: number;
+  fn: number;
+}
+
+interface Options {
+  corpusPath: string;
+  rulesPath: string;
+  tune: boolean;
+  minF1: number | null;
+  minSkillF1: number | null;
+}
+
+const THRESHOLD_CANDIDATES = Array.from({ length: 19 }, (_, i) => (i + 1) * 5);
+const WEIGHT_CANDIDATES = [0, 1, 2, 3, 4, 5, 6, 8, 10];
+
+// Trigger list -> the weight it is scored with; semantic relevance needs no list
+const TRIGGER_WEIGHTS: [Exclude<keyof Rule['triggers'], 'exclude'> | null, keyof Weights][] = [
+  ['keywords', 'keyword'],
+  ['patterns', 'pattern'],
+  ['directories', 'directory'],
+  ['intents', 'intent'],
+  ['fileTypes', 'filePath'],
+  ['contentPatterns', 'content'],
+  [null, 'semantic'],
+];
+
+// ============================================================
+// Input
+// ============================================================
+
+function parseArgs(argv: string[]): Options {
+  const defaultCorpus = join(import.meta.dir, '..', 'skills', 'skill-eval-corpus.jsonl');
+  let corpusPath: string | null = null;
+  let rulesPath: string | null = null;
+  let tune = false;
+  let minF1: number | null = null;
+  let minSkillF1: number | null = null;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--tune') tune = true;
+    else if (arg === '--rules') rulesPath = argv[++i];
+    else if (arg === '--min-f1') minF1 = Number(argv[++i]);
+    else if (arg === '--min-skill-f1') minSkillF1 = Number(argv[++i]);
+    else corpusPath = arg;
+  }
+
+  const corpus = resolve(corpusPath ?? defaultCorpus);
+  return {
+    corpusPath: corpus,
+    rulesPath: resolve(rulesPath ?? join(dirname(corpus), 'skill-rules.json')),
+    tune,
+    minF1,
+    minSkillF1,
+  };
+}
+
+function loadCorpus(path: string): EvalCase[] {
+  const cases: EvalCase[] = [];
+  const lines = readFileSync(path, 'utf-8').split('\n');
+
+  lines.forEach((text, i) => {
+    if (!text.trim()) return;
+    const line = i + 1;
+    let raw: Partial<EvalCase>;
+    try {
+      raw = JSON.parse(text);
+    } catch (e) {
+      throw new Error(`${path}:${line}: invalid JSON (${e})`);
+    }
+    if (typeof raw.prompt !== 'string' || !Array.isArray(raw.expected)) {
+      throw new Error(`${path}:${line}: each case needs "prompt" (string) and "expected" (array)`);
+    }
+    cases.push({ line, prompt: raw.prompt, expected: raw.expected, cwd: raw.cwd, paths: raw.paths });
+  });
+
+  return cases;
+}
+
+// ============================================================
+// Evaluation
+// ============================================================
+
+/**
+ * Precomputed per-case context. Matching never depends on weights or
+ * thresholds, so relevance is computed once and reused by every tuning pass.
+ */
+function buildContexts(rules: SkillRules, cases: EvalCase[], skillsDir: string): (EvalContext | null)[] {
+  const index = usesSemantic(rules) ? loadSkillIndex(skillsDir) : null;
+  const saturation = rules.settings.semantic?.saturation ?? 4;
+
+  return cases.map(c => {
+    if (isExcluded(c.prompt, rules.exclusions)) return null;
+    return {
+      text: c.prompt,
+      cwd: c.cwd ?? '',
+      paths: c.paths ?? [],
+      contents: [],
+      relevance: index ? scoreSkills(index, c.prompt, saturation) : undefined,
+    };
+  });
+}
+
+function evaluateCase(ctx: EvalContext | null, rule: Rule, rules: SkillRules): RuleEvaluation | null {
+  if (!ctx) return null;
+  return explainRule(ctx, rule, rules);
+}
+
+/** Same selection as the hook: passing rules by finalScore, relationships resolved, capped at maxSuggestions. */
+function select(evaluations: (RuleEvaluation | null)[], rules: SkillRules): string[] {
+  const passing = evaluations
+    .filter((e): e is RuleEvaluation => e !== null && !e.excluded)
+    .sort((a, b) => b.finalScore - a.finalScore);
+  return resolveRelationships(passing, rules).matches
+    .slice(0, rules.settings.maxSuggestions)
+    .map(m => m.rule.skill);
+}
+
+/** grid[case][rule] — the evaluation of each proactive rule on each case. */
+type Grid = (RuleEvaluation | null)[][];
+
+function evaluateGrid(rules: SkillRules, proactive: Rule[], contexts: (EvalContext | null)[]): Grid {
+  return contexts.map(ctx => proactive.map(rule => evaluateCase(ctx, rule, rules)));
+}
+
+function countResults(
+  grid: Grid,
+  cases: EvalCase[],
+  proactive: Rule[],
+  rules: SkillRules,
+): Map<string, Counts> {
+  const counts = new Map<string, Counts>(proactive.map(r => [r.skill, { tp: 0, fp: 0, fn: 0 }]));
+
+  cases.forEach((c, i) => {
+    const selected = new Set(select(grid[i], rules));
+    const expected = new Set(c.expected);
+    // Implied companions may have no rule of their own
+    for (const skill of [...selected, ...expected]) {
+      if (!counts.has(skill)) counts.set(skill, { tp: 0, fp: 0, fn: 0 });
+    }
+    for (const [skill, n] of counts) {
+      if (selected.has(skill) && expected.has(skill)) n.tp++;
+      else if (selected.has(skill)) n.fp++;
+      else if (expected.has(skill)) n.fn++;
+    }
+  });
+  return counts;
+}
+
+function f1(n: Counts): { precision: number; recall: number; f1: number } {
+  const precision = n.tp + n.fp ? n.tp / (n.tp + n.fp) : 1;
+  const recall = n.tp + n.fn ? n.tp / (n.tp + n.fn) : 1;
+  const score = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+  return { precision, recall, f1: score };
+}
+
+function microF1(counts: Map<string, Counts>): number {
+  const total: Counts = { tp: 0, fp: 0, fn: 0 };
+  for (const n of counts.values()) {
+    total.tp += n.tp;
+    total.fp += n.fp;
+    total.fn += n.fn;
+  }
+  return f1(total).f1;
+}
+
+// ============================================================
+// Tuning
+// ============================================================
+
+interface Suggestion {
+  target: string;
+  from: number;
+  to: number;
+  f1: number;
+}
+
+/**
+ * Sweep the default threshold, then coordinate-descend over each rule's
+ * threshold and the weights of the dimensions it uses. A change is kept only
+ * when it strictly improves micro F1, so ties favor the current file.
+ */
+function tune(rules: SkillRules, cases: EvalCase[], contexts: (EvalContext | null)[]): Suggestion[] {
+  const suggestions: Suggestion[] = [];
+  const working: SkillRules = structuredClone(rules);
+  const proactive = working.rules.filter(r => (r.type ?? 'proactive') === 'proactive');
+  // Relevance is only computed when some weight uses it (buildContexts)
+  const semantic = contexts.some(ctx => ctx?.relevance);
+
+  let grid = evaluateGrid(working, proactive, contexts);
+  let best = microF1(countResults(grid, cases, proactive, working));
+
+  // Global threshold: affects every rule without its own
+  const originalDefault = working.defaults.threshold;
+  let bestDefault = originalDefault;
+  for (const candidate of THRESHOLD_CANDIDATES) {
+    working.defaults.threshold = candidate;
+    const g = evaluateGrid(working, proactive, contexts);
+    const score = microF1(countResults(g, cases, proactive, working));
+    if (score > best) {
+      best = score;
+      grid = g;
+      bestDefault = candidate;
+    }
+  }
+  working.defaults.threshold = bestDefault;
+  if (bestDefault !== originalDefault) {
+    suggestions.push({ target: 'defaults.threshold', from: originalDefault, to: bestDefault, f1: best });
+  }
+
+  // Per rule: only that rule's column of the grid changes
+  proactive.forEach((rule, col) => {
+    const tryValue = (apply: () => void, restore: () => void): boolean => {
+      apply();
+      const column = contexts.map(ctx => evaluateCase(ctx, rule, working));
+      const g = grid.map((row, i) => row.map((e, j) => (j === col ? column[i] : e)));
+      const score = microF1(countResults(g, cases, proactive, working));
+      if (score > best) {
+        best = score;
+        grid = g;
+        return true;
+      }
+      restore();
+      return false;
+    };
+
+    const fromThreshold = rule.threshold ?? working.defaults.threshold;
+    let threshold = fromThreshold;
+    for (const candidate of THRESHOLD_CANDIDATES) {
+      const previous = rule.threshold;
+      if (tryValue(() => { rule.threshold = candidate; }, () => { rule.threshold = previous; })) {
+        threshold = candidate;
+      }
+    }
+    if (threshold !== fromThreshold) {
+      suggestions.push({ target: `${rule.skill}.threshold`, from: fromThreshold, to: threshold, f1: best });
+    }
+
+    for (const [trigger, dim] of TRIGGER_WEIGHTS) {
+      if (trigger ? !rule.triggers[trigger]?.length : !semantic) continue;
+      const fromWeight = rule.weights?.[dim] ?? working.defaults.weights[dim] ?? 0;
+      let weight = fromWeight;
+      for (const candidate of WEIGHT_CANDIDATES) {
+        const previous = rule.weights;
+        const changed = tryValue(
+          () => { rule.weights = { ...previous, [dim]: candidate }; },
+          () => { rule.weights = previous; },
+        );
+        if (changed) weight = candidate;
+      }
+      if (weight !== fromWeight) {
+        suggestions.push({ target: `${rule.skill}.weights.${dim}`, from: fromWeight, to: weight, f1: best });
+      }
+    }
+  });
+
+  return suggestions;
+}
+
+// ============================================================
+// Report
+// ============================================================
+
+function pct(n: number): string {
+  return n.toFixed(2).padStart(9);
+}
+
+function printReport(grid: Grid, cases: EvalCase[], proactive: Rule[], rules: SkillRules): Map<string, Counts> {
+  const counts = countResults(grid, cases, proactive, rules);
+  const width = Math.max(10, ...[...counts.keys()].map(skill => skill.length)) + 2;
+
+  console.log(`${'Rule'.padEnd(width)}   TP   FP   FN  Precision   Recall       F1`);
+  const total: Counts = { tp: 0, fp: 0, fn: 0 };
+  for (const [skill, n] of counts) {
+    const m = f1(n);
+    console.log(
+      `${skill.padEnd(width)} ${String(n.tp).padStart(4)} ${String(n.fp).padStart(4)} ${String(n.fn).padStart(4)}` +
+      `  ${pct(m.precision)}${pct(m.recall)}${pct(m.f1)}`,
+    );
+    total.tp += n.tp;
+    total.fp += n.fp;
+    total.fn += n.fn;
+  }
+  const micro = f1(total);
+  console.log(
+    `${'micro avg'.padEnd(width)} ${String(total.tp).padStart(4)} ${String(total.fp).padStart(4)} ${String(total.fn).padStart(4)}` +
+    `  ${pct(micro.precision)}${pct(micro.recall)}${pct(micro.f1)}`,
+  );
+
+  // Every wrong case, so a regression can be traced to the prompt that caused it
+  const errors: string[] = [];
+  cases.forEach((c, i) => {
+    const selected = select(grid[i], rules);
+    const missed = c.expected.filter(s => !selected.includes(s));
+    const extra = selected.filter(s => !c.expected.includes(s));
+    if (missed.length || extra.length) {
+      const parts = [missed.length ? `missed ${missed.join(', ')}` : '', extra.length ? `extra ${extra.join(', ')}` : ''];
+      errors.push(`  line ${c.line}: ${parts.filter(Boolean).join('; ')} — "${c.prompt}"`);
+    }
+  });
+  if (errors.length) {
+    console.log('\nMisclassified:');
+    for (const e of errors) console.log(e);
+  }
+
+  return counts;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  console.log('Captain Hooks — Skill Activation Eval\n');
+
+  if (!existsSync(options.corpusPath)) {
+    console.error(`Corpus not found: ${options.corpusPath}`);
+    process.exit(1);
+  }
+
+  // The semantic index cache lives under the framework dir; default to this checkout
+  if (!process.env.CLAUDE_PROJECT_DIR && !process.env.FRAMEWORK_DIR) {
+    process.env.FRAMEWORK_DIR = join(import.meta.dir, '..');
+  }
+
+  let rules: SkillRules;
+  let cases: EvalCase[];
+  try {
+    rules = JSON.parse(readFileSync(options.rulesPath, 'utf-8'));
+    cases = loadCorpus(options.corpusPath);
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+
+  const proactive = rules.rules.filter(r => (r.type ?? 'proactive') === 'proactive');
+  const contexts = buildContexts(rules, cases, dirname(options.rulesPath));
+  const max = rules.settings.maxSuggestions;
+
+  console.log(`Corpus: ${cases.length} prompts | Rules: ${proactive.length} proactive | maxSuggestions: ${max}\n`);
+  const counts = printReport(evaluateGrid(rules, proactive, contexts), cases, proactive, rules);
+
+  if (options.tune) {
+    const suggestions = tune(rules, cases, contexts);
+    console.log('\nTuning (review before applying — a small corpus overfits easily):');
+    if (suggestions.length === 0) {
+      console.log('  No change improves micro F1');
+    } else {
+      for (const s of suggestions) {
+        console.log(`  ${s.target}: ${s.from} -> ${s.to}  (micro F1 ${s.f1.toFixed(2)})`);
+      }
+    }
+  }
+
+  const failures: string[] = [];
+  const score = microF1(counts);
+  if (options.minF1 !== null && score < options.minF1) {
+    failures.push(`micro F1 ${score.toFixed(2)} < ${options.minF1}`);
+  }
+  if (options.minSkillF1 !== null) {
+    for (const [skill, n] of counts) {
+      const skillF1 = f1(n).f1;
+      if (skillF1 < options.minSkillF1) failures.push(`${skill} F1 ${skillF1.toFixed(2)} < ${options.minSkillF1}`);
+    }
+  }
+  if (failures.length > 0) {
+    console.log(`\nEval FAILED: ${failures.join('; ')}`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,376 @@
+#!/usr/bin/env bun
+/**
+ * generate-rules.ts — Propose skill-rules.json triggers from the skills themselves.
+ *
+ * Sources, per skill:
+ * 1. The USE WHEN clause of the SKILL.md description
+ *    -> keywords (the nouns, singularized) and intents (declared intents whose words appear)
+ * 2. Workflow Routing trigger phrases
+ *    -> patterns (multi-word phrases) and keywords (single words)
+ *
+ * Proposals are merged additively: existing triggers, weights, thresholds,
+ * priorities and suggestions are never changed or removed, and anything listed
+ * in a rule's triggers.exclude is never proposed. Skills without a rule get a
+ * new proactive `suggest` rule. Only the rules that change are rewritten in the
+ * file; the rest of its formatting is left alone.
+ *
+ * Usage: bun scripts/generate-rules.ts [skills-dir] [--write]
+ *   Without --write, prints the diff and changes nothing.
+ */
+
+import { readdirSync, readFileSync, writeFileSync, existsSync, statSync } from 'fs';
+import { join } from 'path';
+import { parseWorkflowRouting } from '../hooks/lib/workflow-routing.ts';
+import { stem, escapeRegex } from '../hooks/lib/text-match.ts';
+import { intentDefinitions, type Rule, type SkillRules, type IntentDefinition } from '../hooks/lib/skill-rules.ts';
+
+interface Proposal {
+  keywords: string[];
+  patterns: string[];
+  intents: string[];
+}
+
+interface SkillSource {
+  skill: string;
+  summary: string;
+  useWhen: string[];
+  triggers: string[];
+}
+
+const LINE_WIDTH = 120;
+
+// Words that say nothing about the skill on their own
+const FILLER = new Set([
+  'a', 'an', 'and', 'any', 'are', 'as', 'at', 'back', 'be', 'by', 'do', 'down', 'existing', 'for', 'from',
+  'in', 'into', 'is', 'it', 'later', 'me', 'my', 'new', 'of', 'off', 'on', 'or', 'other', 'our', 'out', 'over',
+  'some', 'something', 'stuff', 'that', 'the', 'their', 'them', 'these', 'thing', 'things', 'this',
+  'to', 'up', 'user', 'want', 'wants', 'when', 'with', 'your',
+]);
+
+// ============================================================
+// Parsing
+// ============================================================
+
+function parseFrontmatter(content: string): Record<string, string> {
+  const match = content.match(/^---\n([\s\S]*?)\n---/);
+  const result: Record<string, string> = {};
+  if (!match) return result;
+
+  for (const line of match[1].split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon > 0) result[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+  }
+  return result;
+}
+
+/** "X. USE WHEN a, b, OR c. More." -> summary "X", clauses [a, b, c] */
+function parseDescription(description: string): { summary: string; useWhen: string[] } {
+  const at = description.indexOf('USE WHEN');
+  if (at === -1) return { summary: description, useWhen: [] };
+
+  const summary = description.slice(0, at).trim().replace(/\.$/, '');
+  const clause = description.slice(at + 'USE WHEN'.length).split(/\.(\s|$)/)[0];
+  const useWhen = clause
+    .split(/,|\bOR\b|\bor\b/)
+    .map(c => c.trim().toLowerCase())
+    .filter(Boolean);
+  return { summary, useWhen };
+}
+
+function readSources(skillsDir: string): SkillSource[] {
+  const sources: SkillSource[] = [];
+  for (const entry of readdirSync(skillsDir).sort()) {
+    const skillMd = join(skillsDir, entry, 'SKILL.md');
+    if (!statSync(join(skillsDir, entry)).isDirectory() || !existsSync(skillMd)) continue;
+
+    const content = readFileSync(skillMd, 'utf-8');
+    const { summary, useWhen } = parseDescription(parseFrontmatter(content).description ?? '');
+    const triggers = parseWorkflowRouting(content).flatMap(r => r.triggers.map(t => t.toLowerCase()));
+    if (useWhen.length === 0 && triggers.length === 0) continue;
+
+    sources.push({ skill: entry, summary, useWhen, triggers });
+  }
+  return sources;
+}
+
+// ============================================================
+// Proposals
+// ============================================================
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z][a-z0-9+#-]*/g) ?? [];
+}
+
+function singular(word: string): string {
+  if (word.endsWith('ies') && word.length > 4) return word.slice(0, -3) + 'y';
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/** Declared intents whose words occur in the text, as a substring or by stem. */
+function matchingIntents(text: string, intents: Record<string, IntentDefinition>): string[] {
+  const lower = text.toLowerCase();
+  const stems = new Set(words(text).map(stem));
+  return Object.entries(intents)
+    .filter(([, def]) => (def.words ?? []).some(w => lower.includes(w.toLowerCase()) || stems.has(stem(w))))
+    .map(([name]) => name);
+}
+
+function propose(source: SkillSource, intents: Record<string, IntentDefinition>): Proposal {
+  const keywords = new Set<string>();
+  const patterns = new Set<string>();
+
+  // -ing verbs ("capturing", "adding") are covered by intents; keep the nouns
+  for (const clause of source.useWhen) {
+    for (const word of words(clause)) {
+      if (FILLER.has(word) || word.endsWith('ing') || word.length < 3) continue;
+      keywords.add(singular(word));
+    }
+  }
+
+  for (const trigger of source.triggers) {
+    const parts = words(trigger);
+    if (parts.length === 1) keywords.add(parts[0]);
+    else if (parts.length > 1) patterns.add(`\\b${parts.map(escapeRegex).join('\\s+')}\\b`);
+  }
+
+  const text = [...source.useWhen, ...source.triggers].join(' ');
+  return { keywords: [...keywords], patterns: [...patterns], intents: matchingIntents(text, intents) };
+}
+
+/** Additions to `rule` (never removals); null when there is nothing new. */
+function mergeInto(rule: Rule, proposal: Proposal): Rule | null {
+  const triggers = rule.triggers ?? {};
+  const exclude = triggers.exclude ?? {};
+  let changed = false;
+
+  const merged: Rule = { ...rule, triggers: { ...triggers } };
+  for (const key of ['keywords', 'patterns', 'intents'] as const) {
+    const existing = triggers[key] ?? [];
+    const have = new Set([...existing, ...(exclude[key] ?? [])].map(v => v.toLowerCase()));
+    const additions = proposal[key].filter(v => !have.has(v.toLowerCase()));
+    if (additions.length === 0) continue;
+    merged.triggers[key] = [...existing, ...additions];
+    changed = true;
+  }
+  return changed ? merged : null;
+}
+
+function newRule(source: SkillSource, proposal: Proposal): Rule {
+  const triggers: Rule['triggers'] = {};
+  if (proposal.keywords.length) triggers.keywords = proposal.keywords;
+  if (proposal.patterns.length) triggers.patterns = proposal.patterns;
+  if (proposal.intents.length) triggers.intents = proposal.intents;
+
+  const summary = source.summary ? ` for ${source.summary[0].toLowerCase()}${source.summary.slice(1)}` : '';
+  return {
+    skill: source.skill,
+    type: 'proactive',
+    enforcement: 'suggest',
+    priority: 5,
+    triggers,
+    suggestion: `Use ${source.skill}${summary}`,
+  };
+}
+
+// ============================================================
+// Writing — splice only the changed rules into the original text
+// ============================================================
+
+/** JSON in this file's style: objects one key per line, scalar arrays inline when they fit. */
+function formatJson(value: unknown, indent: string, column: number): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  const inner = indent + '  ';
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    if (value.every(v => v === null || typeof v !== 'object')) {
+      const inline = `[${value.map(v => JSON.stringify(v)).join(', ')}]`;
+      if (column + inline.length <= LINE_WIDTH) return inline;
+    }
+    const items = value.map(v => inner + formatJson(v, inner, inner.length));
+    return `[\n${items.join(',\n')}\n${indent}]`;
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) return '{}';
+  const lines = entries.map(([k, v]) => {
+    const key = `${inner}${JSON.stringify(k)}: `;
+    return key + formatJson(v, inner, key.length);
+  });
+  return `{\n${lines.join(',\n')}\n${indent}}`;
+}
+
+/** Start/end offsets of every {...} and [...] in `text`, ignoring brackets inside strings. */
+function bracketSpans(text: string): { start: number; end: number }[] {
+  const spans: { start: number; end: number }[] = [];
+  const stack: number[] = [];
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (c === '\\') i++;
+      else if (c === '"') inString = false;
+    } else if (c === '"') {
+      inString = true;
+    } else if (c === '{' || c === '[') {
+      stack.push(i);
+    } else if (c === '}' || c === ']') {
+      spans.push({ start: stack.pop()!, end: i + 1 });
+    }
+  }
+  return spans;
+}
+
+function smallestSpanAround(text: string, index: number, open: string): { start: number; end: number } | null {
+  const spans = bracketSpans(text).filter(s => text[s.start] === open && s.start < index && s.end > index);
+  spans.sort((a, b) => (a.end - a.start) - (b.end - b.start));
+  return spans[0] ?? null;
+}
+
+function isProactive(rule: Rule): boolean {
+  return (rule.type ?? 'proactive') === 'proactive';
+}
+
+/** The proactive rule object for a skill; a reactive rule may name the same skill. */
+function proactiveSpan(text: string, skill: string): { start: number; end: number } | null {
+  const key = new RegExp(`"skill"\\s*:\\s*${escapeRegex(JSON.stringify(skill))}`, 'g');
+  for (const match of text.matchAll(key)) {
+    const span = smallestSpanAround(text, match.index, '{');
+    if (span && isProactive(JSON.parse(text.slice(span.start, span.end)))) return span;
+  }
+  return null;
+}
+
+function spliceRules(text: string, changed: Rule[], added: Rule[]): string {
+  let result = text;
+
+  for (const rule of changed) {
+    const span = proactiveSpan(result, rule.skill);
+    if (!span) throw new Error(`Could not locate rule "${rule.skill}" in skill-rules.json`);
+    const lineStart = result.lastIndexOf('\n', span.start) + 1;
+    const indent = /^\s*/.exec(result.slice(lineStart, span.start))![0];
+    result = result.slice(0, span.start) + formatJson(rule, indent, indent.length) + result.slice(span.end);
+  }
+
+  if (added.length > 0) {
+    const key = result.search(/"rules"\s*:\s*\[/);
+    const span = key === -1 ? null : smallestSpanAround(result, result.indexOf('[', key) + 1, '[');
+    if (!span) throw new Error('Could not locate the "rules" array in skill-rules.json');
+
+    const lineStart = result.lastIndexOf('\n', key) + 1;
+    const outer = /^\s*/.exec(result.slice(lineStart, key))![0];
+    const indent = outer + '  ';
+    const rendered = added.map(r => indent + formatJson(r, indent, indent.length)).join(',\n');
+    const body = result.slice(span.start + 1, span.end - 1).trimEnd();
+    const joined = body.trim() ? `${body},\n${rendered}` : `\n${rendered}`;
+    result = result.slice(0, span.start + 1) + joined + `\n${outer}]` + result.slice(span.end);
+  }
+
+  return result;
+}
+
+// ============================================================
+// Diff
+// ============================================================
+
+/** Unified-style line diff with 2 lines of context. */
+function diffLines(before: string, after: string): string[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // LCS table, filled from the end
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: { op: ' ' | '-' | '+'; line: string; at: number }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ op: ' ', line: a[i], at: j + 1 });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ op: '-', line: a[i], at: j + 1 });
+      i++;
+    } else {
+      ops.push({ op: '+', line: b[j], at: j + 1 });
+      j++;
+    }
+  }
+
+  const near = (k: number) => ops.slice(Math.max(0, k - 2), k + 3).some(o => o.op !== ' ');
+  const out: string[] = [];
+  let gap = false;
+  ops.forEach((o, k) => {
+    if (!near(k)) {
+      gap = true;
+      return;
+    }
+    if (gap || out.length === 0) out.push(`@@ line ${o.at} @@`);
+    gap = false;
+    out.push(`${o.op} ${o.line}`);
+  });
+  return out;
+}
+
+// ============================================================
+// Main
+// ============================================================
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const write = args.includes('--write');
+  const skillsDir = args.find(a => !a.startsWith('--')) ?? join(import.meta.dir, '..', 'skills');
+  const rulesPath = join(skillsDir, 'skill-rules.json');
+
+  console.log('Captain Hooks — Rule Generator\n');
+
+  let text: string;
+  let rules: SkillRules;
+  try {
+    text = readFileSync(rulesPath, 'utf-8');
+    rules = JSON.parse(text);
+  } catch (e) {
+    console.error(`Failed to read ${rulesPath}: ${e}`);
+    process.exit(1);
+  }
+
+  const changed: Rule[] = [];
+  const added: Rule[] = [];
+  for (const source of readSources(skillsDir)) {
+    const proposal = propose(source, intentDefinitions(rules));
+    const existing = rules.rules.find(r => r.skill === source.skill && isProactive(r));
+    if (!existing) {
+      added.push(newRule(source, proposal));
+      continue;
+    }
+    const merged = mergeInto(existing, proposal);
+    if (merged) changed.push(merged);
+  }
+
+  if (changed.length === 0 && added.length === 0) {
+    console.log('No new triggers to propose — skill-rules.json is up to date');
+    process.exit(0);
+  }
+
+  const updated = spliceRules(text, changed, added);
+  for (const line of diffLines(text, updated)) console.log(line);
+  console.log(`\nRules updated: ${changed.length} | Rules added: ${added.length}`);
+
+  if (write) {
+    writeFileSync(rulesPath, updated);
+    console.log(`Wrote ${rulesPath} — run scripts/validate-skills.ts and scripts/eval-skills.ts to check`);
+  } else {
+    console.log('Dry run — re-run with --write to apply');
+  }
+  process.exit(0);
+}
+
+main();
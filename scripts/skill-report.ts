@@ -0,0 +1,265 @@
+#!/usr/bin/env bun
+/**
+ * skill-report.ts — Summarize skill activation telemetry.
+ *
+ * Reads the records skill-eval.hook.ts appends to memory/telemetry/skill-eval.jsonl
+ * (see hooks/lib/telemetry.ts) and reports, against the current rules:
+ *   - activation frequency: how often each skill was selected, by enforcement
+ *   - never fired: proactive rules no recorded prompt selected (prune or retune)
+ *   - near misses: prompts where a rule scored within --margin points of its
+ *     threshold, or passed it and was cut (conflicts, groups, maxSuggestions)
+ *   - latency: average, p95 and max hook time
+ *
+ * Usage: bun scripts/skill-report.ts [log.jsonl] [--since 7d|2026-01-31] [--margin 10] [--json]
+ *   log      default: memory/telemetry/skill-eval.jsonl under the framework dir
+ *   --since  only records newer than a duration (d/h) or an ISO date
+ *   --margin points below threshold that count as a near miss (default 10)
+ *   --json   print the summary as JSON
+ */
+
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { loadSkillRules } from '../hooks/lib/skill-rules.ts';
+import { readTelemetry, telemetryPath, type TelemetryRecord } from '../hooks/lib/telemetry.ts';
+
+interface Options {
+  logPath: string | null;
+  since: Date | null;
+  margin: number;
+  json: boolean;
+}
+
+interface SkillActivity {
+  skill: string;
+  selected: number;
+  byEnforcement: Record<string, number>;
+  avgScore: number;
+}
+
+interface NearMiss {
+  skill: string;
+  prompts: number;
+  /** Highest score among its near misses, and the threshold it had */
+  closest: number;
+  threshold: number;
+  /** Of those, passed the threshold but were cut */
+  cut: number;
+}
+
+interface NeverFired {
+  skill: string;
+  /** Best score any prompt reached, or null when no trigger ever matched */
+  best: number | null;
+  threshold: number;
+}
+
+interface Summary {
+  records: number;
+  evaluated: number;
+  excluded: number;
+  sessions: number;
+  from: string | null;
+  to: string | null;
+  activity: SkillActivity[];
+  neverFired: NeverFired[];
+  nearMisses: NearMiss[];
+  latency: { avg: number; p95: number; max: number } | null;
+}
+
+const DEFAULT_MARGIN = 10;
+const DURATION = /^(\d+)([dh])$/;
+
+// ============================================================
+// Input
+// ============================================================
+
+function parseSince(value: string): Date {
+  const duration = DURATION.exec(value);
+  if (duration) {
+    const hours = Number(duration[1]) * (duration[2] === 'd' ? 24 : 1);
+    return new Date(Date.now() - hours * 3_600_000);
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(`--since: expected 7d, 12h or an ISO date, got "${value}"`);
+  return date;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { logPath: null, since: null, margin: DEFAULT_MARGIN, json: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--since') options.since = parseSince(argv[++i] ?? '');
+    else if (arg === '--margin') options.margin = Number(argv[++i]);
+    else if (arg === '--json') options.json = true;
+    else options.logPath = resolve(arg);
+  }
+  return options;
+}
+
+// ============================================================
+// Summary
+// ============================================================
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+function summarize(records: TelemetryRecord[], ruleSkills: Map<string, number>, margin: number): Summary {
+  const evaluated = records.filter(r => !r.excluded);
+  const activity = new Map<string, SkillActivity & { total: number }>();
+  const near = new Map<string, NearMiss>();
+  const best = new Map<string, number>();
+
+  for (const record of evaluated) {
+    const selected = new Set(record.selected.map(s => s.skill));
+
+    for (const s of record.selected) {
+      const a = activity.get(s.skill) ?? { skill: s.skill, selected: 0, byEnforcement: {}, avgScore: 0, total: 0 };
+      a.selected++;
+      a.total += s.score;
+      a.byEnforcement[s.enforcement] = (a.byEnforcement[s.enforcement] ?? 0) + 1;
+      activity.set(s.skill, a);
+    }
+
+    for (const c of record.candidates) {
+      best.set(c.skill, Math.max(best.get(c.skill) ?? 0, c.score));
+      if (selected.has(c.skill) || c.score < c.threshold - margin) continue;
+
+      const n = near.get(c.skill) ?? { skill: c.skill, prompts: 0, closest: 0, threshold: c.threshold, cut: 0 };
+      n.prompts++;
+      if (c.score >= c.threshold) n.cut++;
+      if (c.score >= n.closest) {
+        n.closest = c.score;
+        n.threshold = c.threshold;
+      }
+      near.set(c.skill, n);
+    }
+  }
+
+  const neverFired: NeverFired[] = [];
+  for (const [skill, threshold] of ruleSkills) {
+    if (!activity.has(skill)) neverFired.push({ skill, best: best.get(skill) ?? null, threshold });
+  }
+
+  const times = records.map(r => r.ms).filter(ms => typeof ms === 'number').sort((a, b) => a - b);
+  const timestamps = records.map(r => r.ts).sort();
+
+  return {
+    records: records.length,
+    evaluated: evaluated.length,
+    excluded: records.length - evaluated.length,
+    sessions: new Set(records.map(r => r.session)).size,
+    from: timestamps[0] ?? null,
+    to: timestamps[timestamps.length - 1] ?? null,
+    activity: [...activity.values()]
+      .map(({ total, ...a }) => ({ ...a, avgScore: round(total / a.selected) }))
+      .sort((a, b) => b.selected - a.selected),
+    neverFired,
+    nearMisses: [...near.values()].sort((a, b) => b.prompts - a.prompts),
+    latency: times.length
+      ? {
+          avg: round(times.reduce((sum, ms) => sum + ms, 0) / times.length),
+          p95: percentile(times, 95),
+          max: times[times.length - 1],
+        }
+      : null,
+  };
+}
+
+// ============================================================
+// Report
+// ============================================================
+
+function printSummary(summary: Summary, logPath: string, margin: number): void {
+  const day = (ts: string | null) => ts?.slice(0, 10) ?? '-';
+  console.log(`Log: ${logPath}`);
+  console.log(
+    `${summary.evaluated} prompts evaluated, ${summary.excluded} excluded | ${summary.sessions} sessions | ` +
+    `${day(summary.from)} -> ${day(summary.to)}`,
+  );
+  if (summary.latency) {
+    console.log(`Latency: avg ${summary.latency.avg} ms | p95 ${summary.latency.p95} ms | max ${summary.latency.max} ms`);
+  }
+
+  const skills = [...summary.activity.map(a => a.skill), ...summary.neverFired.map(n => n.skill), ...summary.nearMisses.map(n => n.skill)];
+  const width = Math.max(10, ...skills.map(s => s.length)) + 2;
+
+  console.log('\nActivation frequency:');
+  if (summary.activity.length === 0) {
+    console.log('  No skill was selected');
+  } else {
+    console.log(`  ${'Skill'.padEnd(width)} Selected  Rate  Avg score  Enforcement`);
+    for (const a of summary.activity) {
+      const rate = `${Math.round((a.selected / Math.max(1, summary.evaluated)) * 100)}%`;
+      const enforcement = Object.entries(a.byEnforcement).map(([e, n]) => `${e} ${n}`).join(', ');
+      console.log(
+        `  ${a.skill.padEnd(width)} ${String(a.selected).padStart(8)} ${rate.padStart(5)} ${String(a.avgScore).padStart(10)}  ${enforcement}`,
+      );
+    }
+  }
+
+  console.log('\nNever fired:');
+  if (summary.neverFired.length === 0) {
+    console.log('  Every proactive rule fired at least once');
+  } else {
+    for (const n of summary.neverFired) {
+      const detail = n.best === null ? 'no trigger ever matched' : `best score ${n.best} / ${n.threshold}`;
+      console.log(`  ${n.skill.padEnd(width)} ${detail}`);
+    }
+  }
+
+  console.log(`\nNear misses (within ${margin} points of the threshold, or cut after passing it):`);
+  if (summary.nearMisses.length === 0) {
+    console.log('  None');
+  } else {
+    for (const n of summary.nearMisses) {
+      const cut = n.cut ? `, ${n.cut} cut` : '';
+      console.log(`  ${n.skill.padEnd(width)} ${n.prompts} prompts${cut} | closest ${n.closest} / ${n.threshold}`);
+    }
+  }
+}
+
+function main(): void {
+  let options: Options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+
+  // Telemetry and rules live under the framework dir; default to this checkout
+  if (!process.env.CLAUDE_PROJECT_DIR && !process.env.FRAMEWORK_DIR) {
+    process.env.FRAMEWORK_DIR = join(import.meta.dir, '..');
+  }
+
+  const logPath = options.logPath ?? telemetryPath();
+  if (!existsSync(logPath) && !existsSync(`${logPath}.1`)) {
+    console.error(`No telemetry at ${logPath} — it is written by skill-eval.hook.ts as prompts are evaluated`);
+    process.exit(1);
+  }
+
+  const since = options.since?.toISOString();
+  const records = readTelemetry(logPath).filter(r => !since || r.ts >= since);
+
+  // Only proactive rules are scored on prompts; their thresholds resolve defaults
+  const rules = loadSkillRules('skill-report');
+  const ruleSkills = new Map<string, number>();
+  for (const rule of rules?.rules ?? []) {
+    if ((rule.type ?? 'proactive') !== 'proactive') continue;
+    ruleSkills.set(rule.skill, rule.threshold ?? rules!.defaults.threshold);
+  }
+
+  const summary = summarize(records, ruleSkills, options.margin);
+  if (options.json) {
+    console.log(JSON.stringify(summary, null, 2));
+  } else {
+    console.log('Captain Hooks — Skill Activation Report\n');
+    printSummary(summary, logPath, options.margin);
+  }
+  process.exit(0);
+}
+
+main();
@@ -11,14 +11,20 @@
  * 6. All referenced workflows exist as files
  * 7. skill-rules.json has a matching entry
  * 8. No file exceeds 500 lines
+ * 9. Every intent referenced by a rule is built in or declared in skill-rules.json `intents`
+ * 10. Intent patterns are valid regexes
+ * 11. triggers.exclude patterns are valid regexes and its intents are declared
+ * 12. implies / conflictsWith name a known skill (rule or directory)
+ * 13. Rule patterns, contentPatterns and exclusions.patterns are valid regexes
  *
- * Usage: bun scripts/validate-skills.ts
+ * Usage: bun scripts/validate-skills.ts [skills-dir]
  */
 
 import { readdirSync, readFileSync, existsSync, statSync } from 'fs';
 import { join } from 'path';
+import { BUILTIN_INTENTS } from '../hooks/lib/skill-rules.ts';
 
-const skillsDir = join(import.meta.dir, '..', 'skills');
+const skillsDir = process.argv[2] ?? join(import.meta.dir, '..', 'skills');
 const rulesPath = join(skillsDir, 'skill-rules.json');
 
 interface ValidationResult {
@@ -116,17 +122,108 @@ function validateSkill(skillName: string, skillPath: string): ValidationResult {
   return result;
 }
 
+interface RulesFile {
+  rules?: {
+    skill: string;
+    triggers?: {
+      intents?: string[];
+      patterns?: string[];
+      contentPatterns?: string[];
+      exclude?: { intents?: string[]; patterns?: string[] };
+    };
+    implies?: string[];
+    conflictsWith?: string[];
+  }[];
+  intents?: Record<string, { words?: string[]; patterns?: string[] }>;
+  exclusions?: { patterns?: string[] };
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function validateRulesFile(rules: RulesFile, skillDirs: string[]): ValidationResult {
+  const result: ValidationResult = { skill: 'skill-rules.json', errors: [], warnings: [] };
+  const intents = { ...BUILTIN_INTENTS, ...rules.intents };
+  const knownSkills = new Set([...skillDirs, ...(rules.rules ?? []).map(r => r.skill)]);
+
+  for (const [name, def] of Object.entries(intents)) {
+    if (!def.words?.length && !def.patterns?.length) {
+      result.warnings.push(`Intent "${name}" has no words or patterns`);
+    }
+    for (const pat of def.patterns ?? []) {
+      if (!isValidRegex(pat)) result.errors.push(`Intent "${name}" has an invalid pattern: ${pat}`);
+    }
+  }
+
+  for (const pat of rules.exclusions?.patterns ?? []) {
+    if (!isValidRegex(pat)) result.errors.push(`exclusions.patterns has an invalid pattern: ${pat}`);
+  }
+
+  for (const rule of rules.rules ?? []) {
+    const exclude = rule.triggers?.exclude;
+    for (const intent of [...rule.triggers?.intents ?? [], ...exclude?.intents ?? []]) {
+      if (!(intent in intents)) {
+        result.errors.push(`Rule "${rule.skill}" references unknown intent "${intent}"`);
+      }
+    }
+    for (const pat of exclude?.patterns ?? []) {
+      if (!isValidRegex(pat)) result.errors.push(`Rule "${rule.skill}" has an invalid exclude pattern: ${pat}`);
+    }
+    for (const pat of [...rule.triggers?.patterns ?? [], ...rule.triggers?.contentPatterns ?? []]) {
+      if (!isValidRegex(pat)) result.errors.push(`Rule "${rule.skill}" has an invalid pattern: ${pat}`);
+    }
+    for (const skill of [...rule.implies ?? [], ...rule.conflictsWith ?? []]) {
+      if (!knownSkills.has(skill)) {
+        result.errors.push(`Rule "${rule.skill}" references unknown skill "${skill}"`);
+      }
+    }
+  }
+
+  return result;
+}
+
+function printResult(result: ValidationResult): void {
+  const icon = result.errors.length > 0 ? '  ' : '  ';
+  console.log(`${icon} ${result.skill}`);
+
+  for (const err of result.errors) {
+    console.log(`    ERROR: ${err}`);
+  }
+  for (const warn of result.warnings) {
+    console.log(`    WARN:  ${warn}`);
+  }
+
+  if (result.errors.length === 0 && result.warnings.length === 0) {
+    console.log('    OK');
+  }
+  console.log('');
+}
+
 function main(): void {
   console.log('Captain Hooks — Skill Validator\n');
 
+  // Find all skill directories
+  const entries = readdirSync(skillsDir).filter(e => {
+    const full = join(skillsDir, e);
+    return statSync(full).isDirectory();
+  });
+
   // Load skill-rules.json
   let rulesSkills: Set<string> = new Set();
+  let rulesResult: ValidationResult | null = null;
   if (existsSync(rulesPath)) {
     try {
       const rules = JSON.parse(readFileSync(rulesPath, 'utf-8'));
       for (const rule of rules.rules || []) {
         rulesSkills.add(rule.skill);
       }
+      rulesResult = validateRulesFile(rules, entries);
     } catch (e) {
       console.error(`Failed to parse skill-rules.json: ${e}`);
     }
@@ -134,12 +231,6 @@ function main(): void {
     console.error('Warning: skill-rules.json not found\n');
   }
 
-  // Find all skill directories
-  const entries = readdirSync(skillsDir).filter(e => {
-    const full = join(skillsDir, e);
-    return statSync(full).isDirectory();
-  });
-
   let totalErrors = 0;
   let totalWarnings = 0;
 
@@ -151,23 +242,15 @@ function main(): void {
       result.warnings.push('No matching entry in skill-rules.json');
     }
 
-    const icon = result.errors.length > 0 ? '  ' : '  ';
-    console.log(`${icon} ${result.skill}`);
-
-    for (const err of result.errors) {
-      console.log(`    ERROR: ${err}`);
-    }
-    for (const warn of result.warnings) {
-      console.log(`    WARN:  ${warn}`);
-    }
-
-    if (result.errors.length === 0 && result.warnings.length === 0) {
-      console.log('    OK');
-    }
-
+    printResult(result);
     totalErrors += result.errors.length;
     totalWarnings += result.warnings.length;
-    console.log('');
+  }
+
+  if (rulesResult) {
+    printResult(rulesResult);
+    totalErrors += rulesResult.errors.length;
+    totalWarnings += rulesResult.warnings.length;
   }
 
   console.log('---');
@@ -1,10 +1,18 @@
-import { describe, test, expect } from 'bun:test';
-import { readFileSync } from 'fs';
+import { describe, test, expect, afterAll } from 'bun:test';
+import { readFileSync, mkdtempSync, readdirSync, symlinkSync, rmSync } from 'fs';
 import { join } from 'path';
+import { tmpdir } from 'os';
 
 const REPO_ROOT = join(import.meta.dir, '..');
 const HOOKS_DIR = join(REPO_ROOT, 'hooks');
 
+// The repo as the hooks see it, minus its memory dir: session state stays out of the working tree
+const PROJECT_DIR = mkdtempSync(join(tmpdir(), 'captain-hooks-e2e-'));
+for (const entry of readdirSync(REPO_ROOT)) {
+  if (!['memory', 'node_modules', '.git'].includes(entry)) symlinkSync(join(REPO_ROOT, entry), join(PROJECT_DIR, entry));
+}
+afterAll(() => rmSync(PROJECT_DIR, { recursive: true, force: true }));
+
 async function execHook(
   hookFile: string,
   input: Record<string, unknown>,
@@ -14,7 +22,7 @@ async function execHook(
     stdin: new Response(JSON.stringify(input)),
     stdout: 'pipe',
     stderr: 'pipe',
-    env: { ...process.env, CLAUDE_PROJECT_DIR: REPO_ROOT },
+    env: { ...process.env, CLAUDE_PROJECT_DIR: PROJECT_DIR },
   });
 
   const timer = setTimeout(() => proc.kill(), timeoutMs);
@@ -35,7 +43,7 @@ async function execCommand(
     stdin: new Response(JSON.stringify(input)),
     stdout: 'pipe',
     stderr: 'pipe',
-    env: { ...process.env, CLAUDE_PROJECT_DIR: REPO_ROOT },
+    env: { ...process.env, CLAUDE_PROJECT_DIR: PROJECT_DIR },
   });
 
   const timer = setTimeout(() => proc.kill(), timeoutMs);
@@ -141,9 +149,11 @@ describe('E2E settings.json wiring (independent harness)', () => {
       let payload: Record<string, unknown> = {};
       if (resolved.includes('context-loader.hook.ts')) payload = { session_id: 'e2e-settings' };
       else if (resolved.includes('skill-eval.hook.ts')) payload = { prompt: 'create a skill', session_id: 'e2e-settings' };
+      else if (resolved.includes('skill-reactive.hook.ts')) payload = { tool_name: 'Write', tool_input: { file_path: 'notes.md' }, session_id: 'e2e-settings' };
       else if (resolved.includes('format-enforcer.hook.ts')) payload = { prompt: 'refactor', session_id: 'e2e-settings' };
       else if (resolved.includes('security-validator.hook.ts')) payload = { tool_name: 'Bash', tool_input: { command: 'ls' }, session_id: 'e2e-settings' };
       else if (resolved.includes('stop-orchestrator.hook.ts')) payload = { session_id: 'e2e-settings', transcript_path: '/tmp/t' };
+      else if (resolved.includes('session-reset.hook.ts')) payload = { session_id: 'e2e-settings', hook_event_name: 'PreCompact' };
 
       const { exitCode, stderr } = await execCommand(parts, payload);
       expect(stderr).not.toContain('Unhandled');
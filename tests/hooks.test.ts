@@ -1,6 +1,8 @@
-import { describe, test, expect } from 'bun:test';
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import { describe, test, expect, afterAll } from 'bun:test';
+import { readFileSync, writeFileSync, mkdtempSync, mkdirSync, renameSync, symlinkSync, existsSync, readdirSync, rmSync } from 'fs';
+import { join, dirname } from 'path';
+import { tmpdir } from 'os';
+import type { SessionState } from '../hooks/lib/session-state.ts';
 
 // ============================================================
 // Test helpers
@@ -8,16 +10,34 @@ import { join } from 'path';
 
 const ROOT = join(import.meta.dir, '..');
 
+// Hooks also read ~/.claude (the global rule layer); keep the developer's own out of the tests
+const EMPTY_CONFIG_DIR = mkdtempSync(join(tmpdir(), 'captain-hooks-global-'));
+// ...and the working tree's git changes (skill-eval paths); run outside any repo by default
+const NEUTRAL_CWD = mkdtempSync(join(tmpdir(), 'captain-hooks-cwd-'));
+// Hooks keep session state, telemetry and caches under <project>/memory: run them against
+// a mirror of the repo with a memory dir of its own, so the suite never writes the real one
+const PROJECT_DIR = mkdtempSync(join(tmpdir(), 'captain-hooks-project-'));
+for (const entry of readdirSync(ROOT)) {
+  if (!['memory', 'node_modules', '.git'].includes(entry)) symlinkSync(join(ROOT, entry), join(PROJECT_DIR, entry));
+}
+afterAll(() => rmSync(PROJECT_DIR, { recursive: true, force: true }));
+
 async function runHook(
   hookPath: string,
   input: Record<string, unknown>,
   timeoutMs = 5000,
+  options: { frameworkDir?: string; cwd?: string; globalDir?: string; args?: string[] } = {},
 ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
-  const proc = Bun.spawn(['bun', join(ROOT, hookPath)], {
+  const proc = Bun.spawn(['bun', join(ROOT, hookPath), ...(options.args ?? [])], {
     stdin: new Response(JSON.stringify(input)),
     stdout: 'pipe',
     stderr: 'pipe',
-    env: { ...process.env, CLAUDE_PROJECT_DIR: ROOT },
+    cwd: options.cwd ?? NEUTRAL_CWD,
+    env: {
+      ...process.env,
+      CLAUDE_CONFIG_DIR: options.globalDir ?? EMPTY_CONFIG_DIR,
+      CLAUDE_PROJECT_DIR: options.frameworkDir ?? PROJECT_DIR,
+    },
   });
 
   const timer = setTimeout(() => proc.kill(), timeoutMs);
@@ -29,13 +49,43 @@ async function runHook(
   return { stdout: stdout.trim(), stderr: stderr.trim(), exitCode };
 }
 
+/** Create a throwaway framework dir with its own skill-rules.json. */
+function makeFramework(
+  rules: Record<string, unknown>[],
+  settings: Record<string, unknown> = {},
+  extra: Record<string, unknown> = {},
+): string {
+  const dir = mkdtempSync(join(tmpdir(), 'captain-hooks-'));
+  mkdirSync(join(dir, 'skills'));
+  writeFileSync(join(dir, 'skills', 'skill-rules.json'), JSON.stringify({
+    version: '1.0',
+    defaults: {
+      weights: { keyword: 2, pattern: 3, directory: 5, intent: 4, filePath: 4, content: 3 },
+      threshold: 25,
+    },
+    rules,
+    exclusions: { prefixes: ['/'], patterns: [] },
+    settings: { maxSuggestions: 3, showScores: false, ...settings },
+    ...extra,
+  }));
+  return dir;
+}
+
+/** Create a throwaway framework dir with its own security/patterns.yaml. */
+function makePolicy(yaml: string): string {
+  const dir = mkdtempSync(join(tmpdir(), 'captain-hooks-policy-'));
+  mkdirSync(join(dir, 'security'));
+  writeFileSync(join(dir, 'security', 'patterns.yaml'), yaml);
+  return dir;
+}
+
 // ============================================================
 // paths.ts
 // ============================================================
 
 describe('hooks/lib/paths', () => {
   // Import directly since these are pure functions
-  const { expandPath, getFrameworkDir } = require('../hooks/lib/paths.ts');
+  const { expandPath, getFrameworkDir, getGlobalDir, realPath, isWithin } = require('../hooks/lib/paths.ts');
 
   test('expandPath replaces ~ with homedir', () => {
     const result = expandPath('~/foo/bar');
@@ -49,94 +99,1755 @@ describe('hooks/lib/paths', () => {
     expect(result).toMatch(/\/projects$/);
   });
 
-  test('expandPath replaces ${HOME} with homedir', () => {
-    const result = expandPath('${HOME}/test');
-    expect(result).not.toContain('${HOME}');
-    expect(result).toMatch(/\/test$/);
+  test('expandPath replaces ${HOME} with homedir', () => {
+    const result = expandPath('${HOME}/test');
+    expect(result).not.toContain('${HOME}');
+    expect(result).toMatch(/\/test$/);
+  });
+
+  test('expandPath leaves absolute paths untouched', () => {
+    expect(expandPath('/usr/local/bin')).toBe('/usr/local/bin');
+  });
+
+  test('getFrameworkDir uses CLAUDE_PROJECT_DIR env', () => {
+    const orig = process.env.CLAUDE_PROJECT_DIR;
+    process.env.CLAUDE_PROJECT_DIR = '/tmp/test-framework';
+    expect(getFrameworkDir()).toBe('/tmp/test-framework');
+    if (orig) process.env.CLAUDE_PROJECT_DIR = orig;
+    else delete process.env.CLAUDE_PROJECT_DIR;
+  });
+
+  test('getGlobalDir uses CLAUDE_CONFIG_DIR env, else ~/.claude', () => {
+    const orig = process.env.CLAUDE_CONFIG_DIR;
+    process.env.CLAUDE_CONFIG_DIR = '/tmp/test-global';
+    expect(getGlobalDir()).toBe('/tmp/test-global');
+    delete process.env.CLAUDE_CONFIG_DIR;
+    expect(getGlobalDir()).toMatch(/\/\.claude$/);
+    if (orig) process.env.CLAUDE_CONFIG_DIR = orig;
+  });
+
+  test('realPath follows symlinks through the nearest existing parent', () => {
+    const target = realPath(mkdtempSync(join(tmpdir(), 'captain-hooks-real-')));
+    const links = mkdtempSync(join(tmpdir(), 'captain-hooks-links-'));
+    symlinkSync(target, join(links, 'link'));
+    expect(realPath(join(links, 'link'))).toBe(target);
+    expect(realPath(join(links, 'link', 'not', 'yet.txt'))).toBe(join(target, 'not', 'yet.txt'));
+  });
+
+  test('isWithin compares whole path segments', () => {
+    expect(isWithin('/home/u/.ssh', '/home/u/.ssh')).toBe(true);
+    expect(isWithin('/home/u/.ssh/id_rsa', '/home/u/.ssh')).toBe(true);
+    expect(isWithin('/home/u/.sshfoo', '/home/u/.ssh')).toBe(false);
+    expect(isWithin('/etc/passwd', '/')).toBe(true);
+  });
+});
+
+// ============================================================
+// text-match.ts
+// ============================================================
+
+describe('hooks/lib/text-match', () => {
+  const { stem, boundedEditDistance, keywordMatches } = require('../hooks/lib/text-match.ts');
+
+  test('stem reduces inflections to a shared stem', () => {
+    expect(stem('testing')).toBe(stem('test'));
+    expect(stem('tests')).toBe(stem('test'));
+    expect(stem('refactored')).toBe(stem('refactor'));
+    expect(stem('created')).toBe(stem('create'));
+    expect(stem('noted')).toBe(stem('note'));
+    expect(stem('running')).toBe('run');
+  });
+
+  test('boundedEditDistance gives up past the bound', () => {
+    expect(boundedEditDistance('skil', 'skill', 1)).toBe(1);
+    expect(boundedEditDistance('kitten', 'sitting', 1)).toBe(2);
+  });
+
+  test('keywordMatches respects the matcher mode', () => {
+    expect(keywordMatches('writing tests', 'test', 'exact')).toBe(false);
+    expect(keywordMatches('writing tests', 'test', 'stem')).toBe(true);
+    expect(keywordMatches('fix the skil loader', 'skill', 'stem')).toBe(false);
+    expect(keywordMatches('fix the skil loader', 'skill', 'fuzzy')).toBe(true);
+    // short words get no typo tolerance
+    expect(keywordMatches('look at this', 'hook', 'fuzzy')).toBe(false);
+    expect(keywordMatches('added unit testing', 'unit test', 'stem')).toBe(true);
+  });
+});
+
+// ============================================================
+// identity.ts
+// ============================================================
+
+describe('hooks/lib/workflow-routing', () => {
+  const { parseWorkflowRouting, matchWorkflow } = require('../hooks/lib/workflow-routing.ts');
+
+  test('parses the routing table of a shipped skill', () => {
+    const skillMd = readFileSync(join(ROOT, 'skills', 'CreateSkill', 'SKILL.md'), 'utf-8');
+    expect(parseWorkflowRouting(skillMd)).toEqual([
+      { name: 'Create', triggers: ['create a skill', 'new skill', 'add a skill'], file: 'Workflows/Create.md' },
+      { name: 'Canonicalize', triggers: ['canonicalize', 'restructure skill'], file: 'Workflows/Canonicalize.md' },
+    ]);
+  });
+
+  test('skips rows that do not point into Workflows/', () => {
+    const skillMd = [
+      '## Workflow Routing',
+      '',
+      '| Workflow | Trigger | File |',
+      '|----------|---------|------|',
+      '| **Escape** | "escape" | `../../secrets.md` |',
+      '| **Ok** | "ok" | `Workflows/Ok.md` |',
+      '',
+      '## Examples',
+      '| **Later** | "later" | `Workflows/Later.md` |',
+    ].join('\n');
+    expect(parseWorkflowRouting(skillMd).map((r: { name: string }) => r.name)).toEqual(['Ok']);
+  });
+
+  test('a tie between workflows is not a clear match', () => {
+    const routes = [
+      { name: 'A', triggers: ['deploy'], file: 'Workflows/A.md' },
+      { name: 'B', triggers: ['rollback'], file: 'Workflows/B.md' },
+    ];
+    expect(matchWorkflow('deploy now', routes, 'exact').name).toBe('A');
+    expect(matchWorkflow('deploy or rollback', routes, 'exact')).toBeNull();
+    expect(matchWorkflow('check the logs', routes, 'exact')).toBeNull();
+  });
+});
+
+describe('hooks/lib/context-budget', () => {
+  const { fitToBudget } = require('../hooks/lib/context-budget.ts');
+  const doc = [
+    '---',
+    'name: Big',
+    '---',
+    '# Big',
+    'intro',
+    '## Reference',
+    'r'.repeat(200),
+    '## Workflow Routing',
+    '| **A** | "a" | `Workflows/A.md` |',
+    '## Examples',
+    'e'.repeat(50),
+    '',
+  ].join('\n');
+
+  test('returns the document untouched when it fits', () => {
+    expect(fitToBudget(doc, 10_000, [])).toEqual({ text: doc, dropped: [] });
+  });
+
+  test('keeps frontmatter, preamble and priority sections first', () => {
+    const fitted = fitToBudget(doc, 150, ['Workflow Routing', 'Examples']);
+    expect(fitted.text).toContain('name: Big');
+    expect(fitted.text).toContain('# Big\nintro');
+    expect(fitted.text).toContain('## Workflow Routing');
+    expect(fitted.text).toContain('## Examples');
+    expect(fitted.dropped).toEqual(['Reference']);
+    expect(fitted.text.length).toBeLessThanOrEqual(150);
+  });
+
+  test('returns null when no section fits next to the frontmatter and preamble', () => {
+    expect(fitToBudget(doc, 10, [])).toBeNull();
+    expect(fitToBudget(doc, 30, [])).toBeNull();
+  });
+});
+
+describe('hooks/lib/rule-layers', () => {
+  const { mergeLayers } = require('../hooks/lib/rule-layers.ts');
+  const base = {
+    version: '1.0',
+    defaults: { weights: { keyword: 2, pattern: 3 }, threshold: 25 },
+    rules: [
+      { skill: 'Deploy', type: 'proactive', enforcement: 'suggest', priority: 5, triggers: { keywords: ['deploy'] }, suggestion: 'Deploy it' },
+      { skill: 'Notes', type: 'proactive', enforcement: 'suggest', priority: 5, triggers: { keywords: ['note'] }, suggestion: 'Note it' },
+    ],
+    exclusions: { prefixes: ['/'], patterns: [] },
+    settings: { maxSuggestions: 3, showScores: false, repeat: { cooldown: 10 } },
+  };
+
+  test('overrides, extends and disables rules per skill and type', () => {
+    const merged = mergeLayers([
+      { name: 'global', content: base },
+      {
+        name: 'project',
+        content: {
+          rules: [
+            { skill: 'Deploy', merge: 'extend', priority: 8, triggers: { keywords: ['ship', 'deploy'], patterns: ['\\brelease\\b'] } },
+            { skill: 'Review', type: 'proactive', enforcement: 'suggest', priority: 5, triggers: { keywords: ['review'] }, suggestion: 'Review it' },
+          ],
+        },
+      },
+      { name: 'local', content: { rules: [{ skill: 'Notes', merge: 'disable' }] } },
+    ]);
+
+    expect(merged.rules.rules.map((r: { skill: string }) => r.skill)).toEqual(['Deploy', 'Review']);
+    const deploy = merged.rules.rules[0];
+    expect(deploy.priority).toBe(8);
+    expect(deploy.suggestion).toBe('Deploy it');
+    expect(deploy.triggers).toEqual({ keywords: ['deploy', 'ship'], patterns: ['\\brelease\\b'] });
+    expect(deploy.merge).toBeUndefined();
+
+    expect(merged.origins.find((o: { skill: string }) => o.skill === 'Notes')).toEqual({
+      skill: 'Notes',
+      type: 'proactive',
+      steps: [{ layer: 'global', merge: 'override' }, { layer: 'local', merge: 'disable' }],
+      disabled: true,
+    });
+  });
+
+  test('a rule without a merge mode replaces the lower layer\'s rule', () => {
+    const merged = mergeLayers([
+      { name: 'global', content: base },
+      { name: 'project', content: { rules: [{ skill: 'Notes', type: 'proactive', enforcement: 'inject', priority: 9, triggers: { keywords: ['memo'] }, suggestion: 'Memo' }] } },
+    ]);
+    const notes = merged.rules.rules.find((r: { skill: string }) => r.skill === 'Notes');
+    expect(notes.triggers).toEqual({ keywords: ['memo'] });
+    expect(notes.enforcement).toBe('inject');
+    // Position of first appearance is kept
+    expect(merged.rules.rules.map((r: { skill: string }) => r.skill)).toEqual(['Deploy', 'Notes']);
+  });
+
+  test('merges weights, settings and exclusions by key', () => {
+    const merged = mergeLayers([
+      { name: 'global', content: base },
+      {
+        name: 'local',
+        content: {
+          defaults: { weights: { keyword: 5 } },
+          exclusions: { prefixes: ['!'] },
+          settings: { maxSuggestions: 1, repeat: { mode: 'suppress' } },
+        },
+      },
+    ]);
+    expect(merged.rules.defaults).toEqual({ weights: { keyword: 5, pattern: 3 }, threshold: 25 });
+    expect(merged.rules.exclusions).toEqual({ prefixes: ['/', '!'], patterns: [] });
+    expect(merged.rules.settings).toEqual({ maxSuggestions: 1, showScores: false, repeat: { cooldown: 10, mode: 'suppress' } });
+  });
+
+  test('extending or disabling an unknown rule is ignored', () => {
+    const merged = mergeLayers([
+      { name: 'project', content: base },
+      { name: 'local', content: { rules: [{ skill: 'Ghost', merge: 'extend', triggers: { keywords: ['boo'] } }] } },
+    ]);
+    expect(merged.rules.rules).toHaveLength(2);
+    expect(merged.origins).toHaveLength(2);
+  });
+
+  test('local overrides alone are not a rule set', () => {
+    expect(mergeLayers([{ name: 'local', content: base }])).toBeNull();
+    expect(mergeLayers([])).toBeNull();
+  });
+});
+
+describe('hooks/lib/transcript', () => {
+  const { recentTurns } = require('../hooks/lib/transcript.ts');
+  const user = (content: unknown) => ({ type: 'user', message: { role: 'user', content } });
+  const assistant = (text: string) => ({ type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text }] } });
+  const entries = [
+    user('first prompt'),
+    assistant('first reply'),
+    user('second prompt <system-reminder>Skill suggestion: Use Deploy</system-reminder>'),
+    { type: 'assistant', message: { role: 'assistant', content: [{ type: 'tool_use', name: 'Read', input: { file_path: 'a.ts' } }] } },
+    user([{ type: 'tool_result', content: 'file body' }]),
+    assistant('second reply'),
+    user('current prompt'),
+  ];
+
+  test('groups prompts and replies into exchanges, most recent first', () => {
+    expect(recentTurns(entries, 2, undefined, 'current prompt')).toEqual([
+      { role: 'assistant', text: 'second reply', distance: 1 },
+      { role: 'user', text: 'second prompt', distance: 1 },
+      { role: 'assistant', text: 'first reply', distance: 2 },
+      { role: 'user', text: 'first prompt', distance: 2 },
+    ]);
+  });
+
+  test('respects the turn limit and role filter', () => {
+    expect(recentTurns(entries, 1, ['user'], 'current prompt')).toEqual([
+      { role: 'user', text: 'second prompt', distance: 1 },
+    ]);
+    expect(recentTurns(entries, 0)).toEqual([]);
+  });
+
+  test('lastAssistantText joins the reply since the last prompt, tool calls included', () => {
+    const { lastAssistantText } = require('../hooks/lib/transcript.ts');
+    expect(lastAssistantText(entries.slice(0, -1))).toBe('second reply');
+    expect(lastAssistantText(entries)).toBe('');
+  });
+
+  test('a trailing prompt other than the current one is history', () => {
+    expect(recentTurns(entries, 1, ['user'], 'something else')).toEqual([
+      { role: 'user', text: 'current prompt', distance: 1 },
+    ]);
+  });
+});
+
+describe('hooks/lib/git-status', () => {
+  const { changedFiles } = require('../hooks/lib/git-status.ts');
+  const git = (cwd: string, ...args: string[]) =>
+    Bun.spawnSync(['git', '-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd });
+
+  test('lists staged, modified, renamed and untracked files relative to the repo root', () => {
+    const repo = mkdtempSync(join(tmpdir(), 'captain-hooks-git-'));
+    git(repo, 'init', '-q');
+    mkdirSync(join(repo, 'hooks'));
+    mkdirSync(join(repo, 'docs'));
+    writeFileSync(join(repo, 'hooks', 'a.hook.ts'), 'a');
+    writeFileSync(join(repo, 'hooks', 'b.hook.ts'), 'b');
+    writeFileSync(join(repo, 'README.md'), 'r');
+    git(repo, 'add', '.');
+    git(repo, 'commit', '-q', '-m', 'init');
+
+    writeFileSync(join(repo, 'hooks', 'a.hook.ts'), 'changed');
+    git(repo, 'mv', 'hooks/b.hook.ts', 'hooks/c.hook.ts');
+    writeFileSync(join(repo, 'docs', 'new.md'), 'new');
+
+    // Paths stay repo-relative when run from a subdirectory
+    expect(changedFiles(join(repo, 'hooks')).sort()).toEqual(['docs/', 'hooks/a.hook.ts', 'hooks/c.hook.ts']);
+  });
+
+  test('returns nothing outside a repository', () => {
+    expect(changedFiles(mkdtempSync(join(tmpdir(), 'captain-hooks-nogit-')))).toEqual([]);
+  });
+});
+
+describe('hooks/lib/acknowledgment', () => {
+  const { ackMarker, isAcknowledged } = require('../hooks/lib/acknowledgment.ts');
+  const { requireAcknowledgment, recordCompliance } = require('../hooks/lib/session-state.ts');
+
+  test('markers are matched case-insensitively and can be customized', () => {
+    expect(ackMarker('Deploy')).toBe('[ack: Deploy]');
+    expect(isAcknowledged('OK. [ACK: deploy]', 'Deploy')).toBe(true);
+    expect(isAcknowledged('deploying now', 'Deploy')).toBe(false);
+    expect(isAcknowledged('<<Deploy ok>>', 'Deploy', { marker: '<<{skill} ok>>' })).toBe(true);
+  });
+
+  test('misses accumulate until the requirement is acknowledged', () => {
+    const state: SessionState = { prompt: 3, skills: {} };
+    requireAcknowledgment(state, 'Deploy', 'Use the checklist');
+    recordCompliance(state, 'Deploy', false);
+    requireAcknowledgment(state, 'Deploy', 'Use the checklist');
+    recordCompliance(state, 'Deploy', false);
+    expect(state.pending!.Deploy).toEqual({ suggestion: 'Use the checklist', since: 3, misses: 2 });
+
+    recordCompliance(state, 'Deploy', true);
+    expect(state.pending).toEqual({});
+    expect(state.compliance!.Deploy).toEqual({ acknowledged: 1, ignored: 2 });
+  });
+});
+
+describe('hooks/lib/yaml', () => {
+  const { parseYaml, lineOf } = require('../hooks/lib/yaml.ts');
+
+  test('parses nested mappings, sequences and quoted scalars with line numbers', () => {
+    const doc = parseYaml([
+      '# policy',
+      'version: 1',
+      'rules:',
+      '- id: one',
+      "  pattern: '\\bfoo\\s+'",
+      '  tools: [Bash, "Read"]',
+      '- plain # comment',
+    ].join('\n'));
+
+    expect(doc).toEqual({ version: 1, rules: [{ id: 'one', pattern: '\\bfoo\\s+', tools: ['Bash', 'Read'] }, 'plain'] });
+    expect(lineOf(doc, 'rules')).toBe(3);
+    expect(lineOf(doc.rules, 1)).toBe(7);
+    expect(lineOf(doc.rules[0], 'tools')).toBe(6);
+  });
+
+  test('errors name the offending line', () => {
+    expect(() => parseYaml('a: 1\na: 2')).toThrow('line 2: duplicate key "a"');
+    expect(() => parseYaml('a:\n  b: 1\n    c: 2')).toThrow('line 3: unexpected indentation');
+    expect(() => parseYaml('a: "\\d"')).toThrow('line 1: unsupported escape');
+    expect(() => parseYaml('a: {b: 1}')).toThrow('line 1: flow mappings');
+  });
+});
+
+describe('hooks/lib/shell', () => {
+  const { analyzeCommand } = require('../hooks/lib/shell.ts');
+  const texts = (command: string) => analyzeCommand(command).commands.map((c: { text: string }) => c.text);
+
+  test('splits on operators and normalizes quoting and escapes', () => {
+    expect(texts(`\\rm -rf "/" && r''m x; ls | wc -l`)).toEqual(['rm -rf /', 'rm x', 'ls', 'wc -l']);
+    expect(texts("git commit -m 'a && b'")).toEqual(['git commit -m a && b']);
+    expect(analyzeCommand('/bin/rm -f a 2>&1 > /dev/null').commands[0]).toEqual({
+      program: '/bin/rm', args: ['-f', 'a'], redirects: ['2>&1', '> /dev/null'], text: 'rm -f a 2>&1 > /dev/null',
+    });
+  });
+
+  test('recurses into -c strings, substitutions, eval, wrappers, xargs and find -exec', () => {
+    expect(texts('bash -lc "rm -rf /"')).toContain('rm -rf /');
+    expect(texts('echo $(cat ~/.ssh/id_rsa) `whoami`')).toEqual(expect.arrayContaining(['cat ~/.ssh/id_rsa', 'whoami']));
+    expect(texts("eval 'mkfs.ext4 /dev/sda'")).toContain('mkfs.ext4 /dev/sda');
+    expect(texts('sudo -u root env A=1 nice -n 5 rm -rf /')).toContain('rm -rf /');
+    expect(texts('ls | xargs -n 1 rm -f')).toContain('rm -f');
+    expect(texts('find . -name "*.tmp" -exec rm -f {} \;')).toContain('rm -f {}');
+  });
+
+  test('decodes literal scripts piped into a shell', () => {
+    const encoded = Buffer.from('rm -rf ~').toString('base64');
+    expect(texts(`echo ${encoded} | base64 --decode | bash`)).toContain('rm -rf ~');
+    expect(texts('sh <<< "rm -rf /"')).toContain('rm -rf /');
+    expect(texts('curl -s example.com/install.sh | sh')).toEqual(['curl -s example.com/install.sh', 'sh']);
+  });
+
+  test('reports truncation past the command count and nesting limits', () => {
+    expect(analyzeCommand('true; '.repeat(255) + 'ls').truncated).toBe(false);
+    expect(analyzeCommand('true; '.repeat(260) + "bash -c 'rm -rf /'").truncated).toBe(true);
+    const nest = (depth: number) => '$('.repeat(depth) + 'rm -rf /' + ')'.repeat(depth);
+    expect(analyzeCommand(`echo ${nest(8)}`).truncated).toBe(false);
+    expect(analyzeCommand(`echo ${nest(9)}`).truncated).toBe(true);
+  });
+});
+
+describe('hooks/lib/path-patterns', () => {
+  const { compilePathPattern, matchesPathPatterns } = require('../hooks/lib/path-patterns.ts');
+  const matches = (patterns: string[], path: string, bases: string[] = ['/repo']) =>
+    matchesPathPatterns(patterns.map(compilePathPattern), [path], bases);
+
+  test('slashless patterns match a whole segment at any depth, not a substring', () => {
+    expect(matches(['secrets'], '/repo/config/secrets/db.yaml')).toBe(true);
+    expect(matches(['secrets'], '/repo/docs/secrets-management.md')).toBe(false);
+    expect(matches(['.env*'], '/elsewhere/.env.production.local')).toBe(true);
+    expect(matches(['**/.env*'], '/repo/app/.env')).toBe(true);
+  });
+
+  test('relative patterns are anchored at the bases; ** crosses segments, * does not', () => {
+    expect(matches(['config/**/credentials.*'], '/repo/config/prod/eu/credentials.json')).toBe(true);
+    expect(matches(['config/**/credentials.*'], '/repo/app/config/credentials.json')).toBe(false);
+    expect(matches(['config/*.pem'], '/repo/config/keys/a.pem')).toBe(false);
+    expect(matches(['config/*.pem'], '/home/u/config/a.pem', ['/repo', '/home/u'])).toBe(true);
+  });
+
+  test('the last matching pattern wins, so negations allowlist', () => {
+    const env = ['.env*', '!.env.example'];
+    expect(matches(env, '/repo/.env.local')).toBe(true);
+    expect(matches(env, '/repo/.env.example')).toBe(false);
+    expect(matches(['!.env.example', '.env*'], '/repo/.env.example')).toBe(true);
+    expect(matches(['~/.aws', '!~/.aws/config'], `${process.env.HOME}/.aws/config`)).toBe(false);
+    expect(matches(['~/.aws', '!~/.aws/config'], `${process.env.HOME}/.aws/credentials`)).toBe(true);
+  });
+});
+
+describe('hooks/lib/tool-input', () => {
+  const { extractTargets } = require('../hooks/lib/tool-input.ts');
+
+  test('each tool names its target in its own field', () => {
+    expect(extractTargets('NotebookEdit', { notebook_path: '/w/a.ipynb', new_source: 'x' }).paths).toEqual(['/w/a.ipynb']);
+    expect(extractTargets('Grep', { pattern: 'key', path: '~/.aws' }).paths).toEqual(['~/.aws']);
+    expect(extractTargets('Grep', { pattern: 'key', path: '/root', glob: '.ssh/**' }).paths).toEqual(['/root', '/root/.ssh']);
+    expect(extractTargets('Grep', { pattern: 'key', path: '/repo', glob: '*.ts' }).paths).toEqual(['/repo']);
+    expect(extractTargets('Glob', { pattern: '~/.{ssh,aws}/*' }).paths).toEqual(['~/.ssh', '~/.aws']);
+    expect(extractTargets('Glob', { pattern: '/w/{a,b/{c,d}}/*.{ts,js}' }).paths).toEqual(['/w/a', '/w/b/c', '/w/b/d']);
+    expect(extractTargets('Glob', { pattern: '/w/{literal}/*' }).paths).toEqual(['/w/{literal}']);
+    expect(extractTargets('Glob', { pattern: '**/*.pem', path: '~/.ssh' }).paths).toEqual(['~/.ssh']);
+    expect(extractTargets('Glob', { pattern: '/etc/ssl/*/key*' }).paths).toEqual(['/etc/ssl']);
+    expect(extractTargets('Glob', { pattern: 'src/**/*.ts' }).paths).toEqual(['src']);
+    expect(extractTargets('Grep', { pattern: 'key', path: '~', glob: '*.pem' }).roots).toEqual(['~']);
+    expect(extractTargets('Grep', { pattern: 'key', path: '~', glob: '{docs,notes}/**' }).roots).toEqual(['~/docs', '~/notes']);
+    expect(extractTargets('Grep', { pattern: 'key', path: '~', glob: '!docs/**' }).roots).toEqual(['~']);
+    expect(extractTargets('WebFetch', { url: 'https://example.com', prompt: 'summarize' }))
+      .toEqual({ command: null, paths: [], roots: [], urls: ['https://example.com'], text: ['https://example.com', 'summarize'] });
+  });
+
+  test('MCP arguments are classified as paths, urls and text, nested ones included', () => {
+    const targets = extractTargets('mcp__fs__read', {
+      path: 'notes.md',
+      options: { source: 'file:///etc/passwd', mirror: 'https://x.test/a' },
+      query: 'hello world',
+    });
+    expect(targets.paths).toEqual(['notes.md', '/etc/passwd']);
+    expect(targets.urls).toEqual(['https://x.test/a']);
+    expect(targets.text).toContain('hello world');
+  });
+});
+
+describe('hooks/lib/identity', () => {
+  test('returns defaults when settings.json has default values', () => {
+    // Settings.json in the repo has default "Assistant" and "User"
+    const settings = JSON.parse(
+      readFileSync(join(ROOT, 'settings.json'), 'utf-8'),
+    );
+    expect(settings.identity.name).toBe('Assistant');
+    expect(settings.principal.name).toBe('User');
+  });
+});
+
+// ============================================================
+// skill-eval.hook.ts — scoring engine
+// ============================================================
+
+describe('skill-eval scoring', () => {
+  test('matching prompt activates skill and returns system-reminder', async () => {
+    const { stdout, exitCode } = await runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt: 'create a new skill for my project', session_id: 'test-1' },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('<system-reminder>');
+    expect(stdout).toContain('CreateSkill');
+    // Session state goes to the test project's memory dir, not the repo's
+    expect(existsSync(join(PROJECT_DIR, 'memory', 'sessions', 'test-1.json'))).toBe(true);
+  });
+
+  test('excluded prompt (slash command) produces no output', async () => {
+    const { stdout, exitCode } = await runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt: '/help', session_id: 'test-2' },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe('');
+  });
+
+  test('excluded prompt (greeting) produces no output', async () => {
+    const { stdout, exitCode } = await runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt: 'hello there', session_id: 'test-3' },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe('');
+  });
+
+  test('unrelated prompt below threshold produces no output', async () => {
+    const { stdout, exitCode } = await runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt: 'what is the weather today', session_id: 'test-4' },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe('');
+  });
+
+  test('empty prompt exits cleanly', async () => {
+    const { stdout, exitCode } = await runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt: '', session_id: 'test-5' },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe('');
+  });
+});
+
+describe('skill-eval negative triggers', () => {
+  const deployRule = (exclude: Record<string, unknown>) => ({
+    skill: 'Deploy',
+    type: 'proactive',
+    enforcement: 'suggest',
+    priority: 5,
+    triggers: { keywords: ['deploy', 'release'], exclude },
+    suggestion: 'Use Deploy',
+  });
+
+  const prompt = (dir: string, text: string) => runHook(
+    'hooks/skill-eval.hook.ts',
+    { prompt: text },
+    5000,
+    { frameworkDir: dir, cwd: dir },
+  );
+
+  test('exclude pattern vetoes an otherwise matching rule', async () => {
+    const dir = makeFramework([deployRule({ patterns: ["\\b(don'?t|do not) (deploy|release)\\b"] })]);
+
+    const vetoed = await prompt(dir, "don't deploy yet, just review the release");
+    expect(vetoed.exitCode).toBe(0);
+    expect(vetoed.stdout).toBe('');
+
+    const allowed = await prompt(dir, 'deploy the release');
+    expect(allowed.stdout).toContain('Deploy');
+  });
+
+  test('exclude intents veto using declared intent families', async () => {
+    const dir = makeFramework(
+      [deployRule({ intents: ['hold'] })],
+      {},
+      { intents: { hold: { words: ['not yet', 'hold off'] } } },
+    );
+
+    const { stdout } = await prompt(dir, 'hold off on the deploy');
+    expect(stdout).toBe('');
+  });
+
+  test('penalty subtracts from the raw score instead of vetoing', async () => {
+    const light = makeFramework([deployRule({ keywords: ['review'], penalty: 1 })]);
+    const heavy = makeFramework([deployRule({ keywords: ['review'], penalty: 4 })]);
+    const text = 'deploy the release after review';
+
+    // raw 4 of 4: a penalty of 1 leaves 75%, a penalty of 4 leaves nothing
+    expect((await prompt(light, text)).stdout).toContain('Deploy');
+    expect((await prompt(heavy, text)).stdout).toBe('');
+  });
+
+  test('explainRule reports the veto and the matched exclusions', () => {
+    const { explainRule } = require('../hooks/lib/skill-rules.ts');
+    const rules = {
+      version: '1.0',
+      defaults: { weights: { keyword: 2, pattern: 3, directory: 5, intent: 4, filePath: 4, content: 3 }, threshold: 25 },
+      rules: [],
+      exclusions: { prefixes: [], patterns: [] },
+      settings: { maxSuggestions: 3, showScores: false },
+    };
+    const ctx = { text: 'deploy, but not the staging release', cwd: '', paths: [], contents: [] };
+
+    const vetoed = explainRule(ctx, deployRule({ keywords: ['staging'] }), rules);
+    expect(vetoed.excluded).toBe('vetoed by triggers.exclude (staging)');
+
+    const penalized = explainRule(ctx, deployRule({ keywords: ['staging'], penalty: 1 }), rules);
+    expect(penalized.negative).toEqual({ matched: ['staging'], penalty: 1 });
+    expect(penalized.rawScore).toBe(3);
+    expect(penalized.excluded).toBeUndefined();
+  });
+});
+
+describe('skill-eval skill relationships', () => {
+  const rule = (skill: string, keywords: string[], extra: Record<string, unknown> = {}) => ({
+    skill,
+    type: 'proactive',
+    enforcement: 'suggest',
+    priority: 5,
+    triggers: { keywords },
+    suggestion: `Use ${skill}`,
+    ...extra,
+  });
+
+  const prompt = (dir: string, text: string) => runHook(
+    'hooks/skill-eval.hook.ts',
+    { prompt: text },
+    5000,
+    { frameworkDir: dir, cwd: dir },
+  );
+
+  test('implies brings in a companion skill right after its implier', async () => {
+    const dir = makeFramework([
+      rule('FrontendTesting', ['component', 'test'], { implies: ['FrontendConventions'] }),
+    ]);
+
+    const { stdout } = await prompt(dir, 'write a component test');
+    expect(stdout).toContain('Use FrontendTesting');
+    expect(stdout).toContain('Use FrontendConventions (implied by FrontendTesting)');
+    expect(stdout.indexOf('FrontendTesting')).toBeLessThan(stdout.indexOf('FrontendConventions'));
+  });
+
+  test('implied companions compete for maxSuggestions', async () => {
+    const dir = makeFramework(
+      [rule('FrontendTesting', ['component', 'test'], { implies: ['FrontendConventions'] })],
+      { maxSuggestions: 1 },
+    );
+
+    const { stdout } = await prompt(dir, 'write a component test');
+    expect(stdout).toContain('FrontendTesting');
+    expect(stdout).not.toContain('FrontendConventions');
+  });
+
+  test('conflictsWith keeps only the higher finalScore', async () => {
+    const dir = makeFramework([
+      rule('Postgres', ['database', 'postgres'], { priority: 6, conflictsWith: ['Mysql'] }),
+      rule('Mysql', ['database', 'mysql']),
+    ]);
+
+    const { stdout } = await prompt(dir, 'add an index to the database');
+    expect(stdout).toContain('Use Postgres');
+    expect(stdout).not.toContain('Use Mysql');
+  });
+
+  test('group caps how many skills of a family activate', async () => {
+    const dir = makeFramework(
+      [
+        rule('Eslint', ['lint'], { priority: 7, group: 'lint' }),
+        rule('Prettier', ['lint'], { priority: 6, group: 'lint' }),
+        rule('Stylelint', ['lint'], { priority: 5, group: 'lint' }),
+      ],
+      {},
+      { groups: { lint: { max: 2 } } },
+    );
+
+    const { stdout } = await prompt(dir, 'lint the project');
+    expect(stdout).toContain('Use Eslint');
+    expect(stdout).toContain('Use Prettier');
+    expect(stdout).not.toContain('Use Stylelint');
+  });
+
+  test('resolveRelationships reports why matches were dropped', () => {
+    const { resolveRelationships } = require('../hooks/lib/skill-rules.ts');
+    const postgres = rule('Postgres', [], { conflictsWith: ['Mysql'] });
+    const mysql = rule('Mysql', []);
+    const sqlite = rule('Sqlite', [], { group: 'db' });
+    const duckdb = rule('Duckdb', [], { group: 'db' });
+    const rules = { rules: [postgres, mysql, sqlite, duckdb] };
+
+    const resolution = resolveRelationships([
+      { rule: postgres, normalizedScore: 80, finalScore: 40 },
+      { rule: mysql, normalizedScore: 90, finalScore: 35 },
+      { rule: sqlite, normalizedScore: 60, finalScore: 30 },
+      { rule: duckdb, normalizedScore: 50, finalScore: 25 },
+    ], rules);
+
+    expect(resolution.matches.map((m: { rule: { skill: string } }) => m.rule.skill)).toEqual(['Postgres', 'Sqlite']);
+    expect(resolution.dropped.map((d: { reason: string }) => d.reason)).toEqual([
+      'conflicts with Postgres',
+      'group "db" already has 1 active',
+    ]);
+  });
+});
+
+describe('skill-eval layered rules', () => {
+  const rule = (skill: string, keywords: string[], extra: Record<string, unknown> = {}) => ({
+    skill,
+    type: 'proactive',
+    enforcement: 'suggest',
+    priority: 5,
+    triggers: { keywords },
+    suggestion: `Use ${skill}`,
+    ...extra,
+  });
+
+  // A global ~/.claude framework plus a project framework with a local override file
+  function makeLayers(local: Record<string, unknown> | null) {
+    const global = mkdtempSync(join(tmpdir(), 'captain-hooks-global-'));
+    renameSync(
+      join(makeFramework([rule('Deploy', ['deploy', 'ship']), rule('Notes', ['note', 'memo'])]), 'skills'),
+      join(global, 'skills'),
+    );
+    mkdirSync(join(global, 'skills', 'Notes'));
+    writeFileSync(join(global, 'skills', 'Notes', 'SKILL.md'), '---\nname: Notes\n---\n\n# Notes\nGlobal notes skill body.\n');
+
+    const project = makeFramework([rule('Review', ['review', 'diff'])]);
+    if (local) writeFileSync(join(project, 'skills', 'skill-rules.local.json'), JSON.stringify(local));
+    return { global, project };
+  }
+
+  test('rules from the global and project layers both activate', async () => {
+    const { global, project } = makeLayers(null);
+    const deploy = await runHook('hooks/skill-eval.hook.ts', { prompt: 'deploy and ship it', session_id: '' }, 5000, { frameworkDir: project, globalDir: global });
+    const review = await runHook('hooks/skill-eval.hook.ts', { prompt: 'review the diff', session_id: '' }, 5000, { frameworkDir: project, globalDir: global });
+    expect(deploy.stdout).toContain('Use Deploy');
+    expect(review.stdout).toContain('Use Review');
+  });
+
+  test('the local layer disables and extends rules', async () => {
+    const { global, project } = makeLayers({
+      rules: [
+        { skill: 'Deploy', merge: 'disable' },
+        { skill: 'Review', merge: 'extend', triggers: { keywords: ['pr'] } },
+      ],
+    });
+    const deploy = await runHook('hooks/skill-eval.hook.ts', { prompt: 'deploy and ship it', session_id: '' }, 5000, { frameworkDir: project, globalDir: global });
+    const review = await runHook('hooks/skill-eval.hook.ts', { prompt: 'review the pr', session_id: '' }, 5000, { frameworkDir: project, globalDir: global });
+    expect(deploy.stdout).toBe('');
+    expect(review.stdout).toContain('Use Review');
+  });
+
+  test('inject rules from the global layer load the global SKILL.md', async () => {
+    const { global, project } = makeLayers({
+      rules: [{ skill: 'Notes', merge: 'extend', enforcement: 'inject' }],
+    });
+    const { stdout } = await runHook('hooks/skill-eval.hook.ts', { prompt: 'add a note and a memo', session_id: '' }, 5000, { frameworkDir: project, globalDir: global });
+    expect(stdout).toContain('Global notes skill body.');
+  });
+
+  test('--rules prints each layer, rule provenance and the merged set', async () => {
+    const { global, project } = makeLayers({ rules: [{ skill: 'Deploy', merge: 'disable' }] });
+    const { stdout, exitCode } = await runHook('hooks/skill-eval.hook.ts', {}, 5000, { frameworkDir: project, globalDir: global, args: ['--rules'] });
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain(`global   ${join(global, 'skills', 'skill-rules.json')}`);
+    expect(stdout).toMatch(/Review \(proactive\)\s+project/);
+    expect(stdout).toMatch(/Deploy \(proactive\)\s+global -> local \(disable\)/);
+
+    const json = JSON.parse(stdout.slice(stdout.indexOf('{')));
+    expect(json.rules.map((r: { skill: string }) => r.skill)).toEqual(['Notes', 'Review']);
+  });
+});
+
+describe('skill-eval workflow injection', () => {
+  function makeNotesFramework(settings: Record<string, unknown> = {}): string {
+    const dir = makeFramework([{
+      skill: 'Notes',
+      type: 'proactive',
+      enforcement: 'inject',
+      priority: 5,
+      triggers: { keywords: ['note', 'notes'] },
+      suggestion: 'Use Notes',
+    }], settings);
+    mkdirSync(join(dir, 'skills', 'Notes', 'Workflows'), { recursive: true });
+    writeFileSync(join(dir, 'skills', 'Notes', 'SKILL.md'), [
+      '# Notes',
+      '',
+      'NOTES ROUTER BODY',
+      '',
+      '## Workflow Routing',
+      '',
+      '| Workflow | Trigger | File |',
+      '|----------|---------|------|',
+      '| **Capture** | "take a note", "jot this down" | `Workflows/Capture.md` |',
+      '| **Search** | "find my notes" | `Workflows/Search.md` |',
+    ].join('\n'));
+    writeFileSync(join(dir, 'skills', 'Notes', 'Workflows', 'Capture.md'), '# Capture\n\nCAPTURE STEPS\n');
+    writeFileSync(join(dir, 'skills', 'Notes', 'Workflows', 'Search.md'), '# Search\n\nSEARCH STEPS\n');
+    return dir;
+  }
+
+  const prompt = (dir: string, text: string, session?: string) => runHook(
+    'hooks/skill-eval.hook.ts',
+    { prompt: text, session_id: session },
+    5000,
+    { frameworkDir: dir, cwd: dir },
+  );
+
+  test('a matching trigger phrase injects only that workflow', async () => {
+    const { stdout } = await prompt(makeNotesFramework(), 'take a note: ship on friday');
+    expect(stdout).toContain('--- Auto-loaded skill: Notes (workflow: Capture) ---');
+    expect(stdout).toContain('CAPTURE STEPS');
+    expect(stdout).not.toContain('NOTES ROUTER BODY');
+    expect(stdout).not.toContain('SEARCH STEPS');
+  });
+
+  test('skill+workflow injects SKILL.md followed by the workflow', async () => {
+    const dir = makeNotesFramework({ workflows: { inject: 'skill+workflow' } });
+    const { stdout } = await prompt(dir, 'take a note: ship on friday');
+    expect(stdout).toContain('NOTES ROUTER BODY');
+    expect(stdout).toContain('--- Workflows/Capture.md ---\n# Capture\n\nCAPTURE STEPS');
+  });
+
+  test('no workflow match falls back to the whole SKILL.md', async () => {
+    const { stdout } = await prompt(makeNotesFramework(), 'summarize the notes');
+    expect(stdout).toContain('--- Auto-loaded skill: Notes ---');
+    expect(stdout).toContain('NOTES ROUTER BODY');
+  });
+
+  test('a different workflow in the same session is not treated as a repeat', async () => {
+    const dir = makeNotesFramework();
+    await prompt(dir, 'take a note: ship on friday', 'wf-1');
+    const second = await prompt(dir, 'find my notes about friday', 'wf-1');
+    expect(second.stdout).toContain('SEARCH STEPS');
+
+    const third = await prompt(dir, 'take a note: and saturday', 'wf-1');
+    expect(third.stdout).toContain('Skill reminder: Notes (workflow: Capture)');
+  });
+});
+
+describe('skill-eval context budget', () => {
+  function makeBudgetFramework(maxChars: number): string {
+    const inject = (skill: string, priority: number) => ({
+      skill,
+      type: 'proactive',
+      enforcement: 'inject',
+      priority,
+      triggers: { keywords: ['docs'] },
+      suggestion: `Use ${skill}`,
+    });
+    const dir = makeFramework([inject('Alpha', 9), inject('Beta', 5)]);
+    writeFileSync(join(dir, 'settings.json'), JSON.stringify({
+      contextBudget: { 'skill-eval': { maxChars, sections: ['Examples'] } },
+    }));
+    for (const skill of ['Alpha', 'Beta']) {
+      mkdirSync(join(dir, 'skills', skill));
+      writeFileSync(join(dir, 'skills', skill, 'SKILL.md'), [
+        `# ${skill}`,
+        '',
+        `## Reference`,
+        `${skill.toUpperCase()} REFERENCE ${'x'.repeat(300)}`,
+        '',
+        '## Examples',
+        `${skill.toUpperCase()} EXAMPLES`,
+        '',
+      ].join('\n'));
+    }
+    return dir;
+  }
+
+  const prompt = (dir: string) => runHook(
+    'hooks/skill-eval.hook.ts',
+    { prompt: 'update the docs' },
+    5000,
+    { frameworkDir: dir, cwd: dir },
+  );
+
+  test('without a budget both skills are injected in full', async () => {
+    const { stdout } = await prompt(makeBudgetFramework(100_000));
+    expect(stdout).toContain('ALPHA REFERENCE');
+    expect(stdout).toContain('BETA REFERENCE');
+  });
+
+  test('over budget, sections are trimmed and the rest falls back to suggest', async () => {
+    const { stdout } = await prompt(makeBudgetFramework(60));
+
+    expect(stdout).toContain('--- Auto-loaded skill: Alpha ---');
+    expect(stdout).toContain('ALPHA EXAMPLES');
+    expect(stdout).not.toContain('ALPHA REFERENCE');
+    expect(stdout).toContain('[Context budget: omitted Reference — read skills/Alpha/SKILL.md for the full text]');
+
+    expect(stdout).not.toContain('BETA EXAMPLES');
+    expect(stdout).toContain('Skill suggestion: Use Beta [Context budget: not auto-loaded — read skills/Beta/SKILL.md]');
+  });
+});
+
+describe('skill-eval content patterns', () => {
+  const reduxRule = {
+    skill: 'Redux',
+    type: 'proactive',
+    enforcement: 'suggest',
+    priority: 5,
+    triggers: {
+      keywords: ['redux'],
+      contentPatterns: ['createSlice\\(', 'configureStore\\('],
+    },
+    suggestion: 'Use the Redux skill for store changes',
+  };
+
+  test('file named in prompt activates skill via its contents', async () => {
+    const dir = makeFramework([reduxRule]);
+    mkdirSync(join(dir, 'src'));
+    writeFileSync(join(dir, 'src', 'store.ts'), 'export const store = configureStore({ reducer });\n');
+
+    const { stdout, exitCode } = await runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt: 'fix the reducer in store.ts', session_id: 'test-content-1' },
+      5000,
+      { frameworkDir: dir, cwd: dir },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('Redux');
+  });
+
+  test('recently touched file from transcript activates skill', async () => {
+    const dir = makeFramework([reduxRule]);
+    const file = join(dir, 'slice.ts');
+    writeFileSync(file, 'const todos = createSlice({ name: "todos" });\nconst s = configureStore({});\n');
+    const transcript = join(dir, 'transcript.jsonl');
+    writeFileSync(transcript, JSON.stringify({
+      type: 'assistant',
+      message: { role: 'assistant', content: [{ type: 'tool_use', name: 'Edit', input: { file_path: file } }] },
+    }) + '\n');
+
+    const { stdout, exitCode } = await runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt: 'now add a selector for completed items', session_id: 'test-content-2', transcript_path: transcript },
+      5000,
+      { frameworkDir: dir, cwd: dir },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('Redux');
+  });
+
+  test('named file without matching content does not activate skill', async () => {
+    const dir = makeFramework([reduxRule]);
+    writeFileSync(join(dir, 'util.ts'), 'export const add = (a: number, b: number) => a + b;\n');
+
+    const { stdout, exitCode } = await runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt: 'fix the bug in util.ts', session_id: 'test-content-3' },
+      5000,
+      { frameworkDir: dir, cwd: dir },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe('');
+  });
+});
+
+describe('skill-eval intents from skill-rules.json', () => {
+  const incidentRule = {
+    skill: 'Incident',
+    type: 'proactive',
+    enforcement: 'suggest',
+    priority: 5,
+    triggers: { intents: ['incident'] },
+    suggestion: 'Use Incident for outage response',
+  };
+
+  test('custom intent words activate a rule', async () => {
+    const dir = makeFramework([incidentRule], {}, {
+      intents: { incident: { words: ['outage', 'sev1', 'paged'] } },
+    });
+    const { stdout } = await runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt: 'we have an outage in checkout', session_id: 'intent-1' },
+      5000,
+      { frameworkDir: dir, cwd: dir },
+    );
+
+    expect(stdout).toContain('Incident');
+  });
+
+  test('custom intent patterns activate a rule', async () => {
+    const dir = makeFramework([incidentRule], {}, {
+      intents: { incident: { patterns: ['\\bp[0-2]\\s+(alert|incident)'] } },
+    });
+    const { stdout } = await runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt: 'there is a p1 alert firing', session_id: 'intent-2' },
+      5000,
+      { frameworkDir: dir, cwd: dir },
+    );
+
+    expect(stdout).toContain('Incident');
+  });
+
+  test('per-intent weight scales the intent dimension', async () => {
+    // Matching only the light intent: 1 of 4 weighted units = 25%, under a 30 threshold
+    const dir = makeFramework([{ ...incidentRule, threshold: 30, triggers: { intents: ['incident', 'migrate'] } }], {}, {
+      intents: {
+        incident: { words: ['outage'], weight: 1 },
+        migrate: { words: ['migration'], weight: 3 },
+      },
+    });
+    const run = (prompt: string) => runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt, session_id: `intent-3-${prompt.length}` },
+      5000,
+      { frameworkDir: dir, cwd: dir },
+    );
+
+    expect((await run('outage in checkout')).stdout).toBe('');
+    expect((await run('run the schema migration')).stdout).toContain('Incident');
+  });
+
+  test('intents neither declared nor built in never match', async () => {
+    const dir = makeFramework([incidentRule]);
+    const { stdout } = await runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt: 'we have an outage', session_id: 'intent-4' },
+      5000,
+      { frameworkDir: dir, cwd: dir },
+    );
+
+    expect(stdout).toBe('');
+  });
+
+  test('a rules file without an intents section still has the built-in families', async () => {
+    const shipRule = { ...incidentRule, skill: 'Deploy', triggers: { intents: ['deploy'] }, suggestion: 'Use Deploy' };
+    const send = (dir: string) => runHook('hooks/skill-eval.hook.ts', { prompt: 'ship it to production', session_id: '' }, 5000, { frameworkDir: dir, cwd: dir });
+
+    expect((await send(makeFramework([shipRule]))).stdout).toContain('Use Deploy');
+    // A declared family replaces the built-in one of the same name
+    const replaced = makeFramework([shipRule], {}, { intents: { deploy: { words: ['rollout'] } } });
+    expect((await send(replaced)).stdout).toBe('');
+  });
+});
+
+describe('skill-eval keyword matcher modes', () => {
+  const refactorRule = {
+    skill: 'Refactor',
+    type: 'proactive',
+    enforcement: 'suggest',
+    priority: 5,
+    triggers: { keywords: ['refactor', 'test'] },
+    suggestion: 'Use Refactor for safe restructuring',
+  };
+  const run = (dir: string, prompt: string) => runHook(
+    'hooks/skill-eval.hook.ts',
+    { prompt, session_id: `matcher-${prompt.length}` },
+    5000,
+    { frameworkDir: dir, cwd: dir },
+  );
+
+  test('exact mode misses inflected forms', async () => {
+    const dir = makeFramework([refactorRule]);
+    expect((await run(dir, 'refactored the testing helpers')).stdout).toBe('');
+  });
+
+  test('global stem mode matches inflected forms', async () => {
+    const dir = makeFramework([refactorRule], { matcher: 'stem' });
+    expect((await run(dir, 'refactored the testing helpers')).stdout).toContain('Refactor');
+  });
+
+  test('per-rule fuzzy mode tolerates typos', async () => {
+    const dir = makeFramework([{ ...refactorRule, matcher: 'fuzzy' }]);
+    expect((await run(dir, 'please refactr this module')).stdout).toContain('Refactor');
+  });
+});
+
+describe('skill-eval semantic relevance', () => {
+  function makeDocsFramework(): string {
+    const dir = makeFramework([{
+      skill: 'Kubernetes',
+      type: 'proactive',
+      enforcement: 'suggest',
+      priority: 5,
+      triggers: {},
+      suggestion: 'Use Kubernetes for cluster operations',
+    }]);
+    const rulesPath = join(dir, 'skills', 'skill-rules.json');
+    const rules = JSON.parse(readFileSync(rulesPath, 'utf-8'));
+    rules.defaults.weights.semantic = 2;
+    writeFileSync(rulesPath, JSON.stringify(rules));
+
+    mkdirSync(join(dir, 'skills', 'Kubernetes', 'Workflows'), { recursive: true });
+    writeFileSync(join(dir, 'skills', 'Kubernetes', 'SKILL.md'),
+      '---\nname: Kubernetes\ndescription: Cluster ops. USE WHEN kubectl, pods, helm charts.\n---\n# Kubernetes\n');
+    writeFileSync(join(dir, 'skills', 'Kubernetes', 'Workflows', 'Scale.md'),
+      '# Scale\nScale a deployment: kubectl scale deployment --replicas. Check pods and rollout status.\n');
+    // A second skill so IDF can tell distinctive terms from common ones
+    mkdirSync(join(dir, 'skills', 'Notes'));
+    writeFileSync(join(dir, 'skills', 'Notes', 'SKILL.md'),
+      '---\nname: Notes\ndescription: Note capture. USE WHEN taking notes or jotting ideas.\n---\n# Notes\n');
+    return dir;
+  }
+
+  test('rule without triggers activates from its skill docs', async () => {
+    const dir = makeDocsFramework();
+    const { stdout } = await runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt: 'scale the pods with kubectl', session_id: 'semantic-1' },
+      5000,
+      { frameworkDir: dir, cwd: dir },
+    );
+
+    expect(stdout).toContain('Kubernetes');
+  });
+
+  test('unrelated prompt gets no semantic match', async () => {
+    const dir = makeDocsFramework();
+    const { stdout } = await runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt: 'what is the weather today', session_id: 'semantic-2' },
+      5000,
+      { frameworkDir: dir, cwd: dir },
+    );
+
+    expect(stdout).toBe('');
+  });
+
+  test('index is cached on disk and rebuilt when docs change', async () => {
+    const dir = makeDocsFramework();
+    const run = (prompt: string, session: string) => runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt, session_id: session },
+      5000,
+      { frameworkDir: dir, cwd: dir },
+    );
+
+    await run('scale the pods with kubectl', 'semantic-3');
+    const cachePath = join(dir, 'memory', 'cache', 'skill-index.json');
+    expect(JSON.parse(readFileSync(cachePath, 'utf-8')).docs.Kubernetes).toBeDefined();
+
+    writeFileSync(join(dir, 'skills', 'Kubernetes', 'Workflows', 'Terraform.md'),
+      '# Terraform\nterraform plan and terraform apply for infrastructure modules\n');
+    const { stdout } = await run('terraform plan for the new modules', 'semantic-4');
+    expect(stdout).toContain('Kubernetes');
+  });
+
+  test('skills from the global layer are indexed too', async () => {
+    const global = makeDocsFramework();
+    const project = makeFramework([{ skill: 'Review', type: 'proactive', enforcement: 'suggest', priority: 5, triggers: { keywords: ['review'] }, suggestion: 'Use Review' }]);
+    const { stdout } = await runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt: 'scale the pods with kubectl', session_id: 'semantic-5' },
+      5000,
+      { frameworkDir: project, cwd: project, globalDir: global },
+    );
+
+    expect(stdout).toContain('Kubernetes');
+  });
+});
+
+describe('skill-eval session memory', () => {
+  function makeInjectFramework(settings: Record<string, unknown> = {}): string {
+    const dir = makeFramework([{
+      skill: 'Docs',
+      type: 'proactive',
+      enforcement: 'inject',
+      priority: 5,
+      triggers: { keywords: ['docs'] },
+      suggestion: 'Use Docs for documentation',
+    }], settings);
+    mkdirSync(join(dir, 'skills', 'Docs'));
+    writeFileSync(join(dir, 'skills', 'Docs', 'SKILL.md'), '# Docs\n\nFULL SKILL BODY\n');
+    return dir;
+  }
+
+  const prompt = (dir: string, session: string) => runHook(
+    'hooks/skill-eval.hook.ts',
+    { prompt: 'update the docs', session_id: session },
+    5000,
+    { frameworkDir: dir, cwd: dir },
+  );
+
+  test('repeat injection in the same session becomes a reminder', async () => {
+    const dir = makeInjectFramework();
+
+    const first = await prompt(dir, 'mem-1');
+    expect(first.stdout).toContain('FULL SKILL BODY');
+
+    const second = await prompt(dir, 'mem-1');
+    expect(second.stdout).toContain('Skill reminder: Docs');
+    expect(second.stdout).not.toContain('FULL SKILL BODY');
+
+    const otherSession = await prompt(dir, 'mem-2');
+    expect(otherSession.stdout).toContain('FULL SKILL BODY');
+  });
+
+  test('suppress mode omits repeats entirely', async () => {
+    const dir = makeInjectFramework({ repeat: { cooldown: 10, mode: 'suppress' } });
+
+    await prompt(dir, 'mem-3');
+    const second = await prompt(dir, 'mem-3');
+    expect(second.exitCode).toBe(0);
+    expect(second.stdout).toBe('');
+  });
+
+  test('skill injects in full again after cooldown', async () => {
+    const dir = makeInjectFramework({ repeat: { cooldown: 1, mode: 'remind' } });
+
+    await prompt(dir, 'mem-4');
+    const second = await prompt(dir, 'mem-4');
+    expect(second.stdout).toContain('FULL SKILL BODY');
+  });
+
+  test('compaction resets activation memory', async () => {
+    const dir = makeInjectFramework();
+
+    await prompt(dir, 'mem-5');
+    const reset = await runHook(
+      'hooks/session-reset.hook.ts',
+      { session_id: 'mem-5', hook_event_name: 'PreCompact' },
+      5000,
+      { frameworkDir: dir, cwd: dir },
+    );
+    expect(reset.exitCode).toBe(0);
+
+    const after = await prompt(dir, 'mem-5');
+    expect(after.stdout).toContain('FULL SKILL BODY');
+  });
+});
+
+describe('skill-eval working paths', () => {
+  // A prompt that names no path: only the intent and the paths can carry it
+  const hookRule = {
+    skill: 'HookAuthoring',
+    type: 'proactive',
+    enforcement: 'suggest',
+    priority: 5,
+    // The intent alone is 4/15; the changed hook file adds directory + fileType
+    threshold: 40,
+    triggers: { keywords: ['hook'], intents: ['create'], directories: ['hooks/'], fileTypes: ['.hook.ts'] },
+    suggestion: 'Use HookAuthoring',
+  };
+  const intents = { intents: { create: { words: ['add'] } } };
+  const prompt = { prompt: 'add a retry to it', session_id: '' };
+
+  function makeRepo(): string {
+    const repo = mkdtempSync(join(tmpdir(), 'captain-hooks-repo-'));
+    Bun.spawnSync(['git', 'init', '-q'], { cwd: repo });
+    mkdirSync(join(repo, 'hooks'));
+    writeFileSync(join(repo, 'hooks', 'retry.hook.ts'), 'export {};');
+    return repo;
+  }
+
+  test('changed files in the working tree feed directories and fileTypes', async () => {
+    const dir = makeFramework([hookRule], {}, intents);
+    const repo = makeRepo();
+
+    const { stdout } = await runHook('hooks/skill-eval.hook.ts', prompt, 5000, { frameworkDir: dir, cwd: repo });
+    expect(stdout).toContain('Use HookAuthoring');
+  });
+
+  test('working files alone never activate a rule', async () => {
+    const dir = makeFramework([{ ...hookRule, threshold: 10 }], {}, intents);
+    const repo = makeRepo();
+
+    const { stdout } = await runHook('hooks/skill-eval.hook.ts', { prompt: 'what time is it', session_id: '' }, 5000, { frameworkDir: dir, cwd: repo });
+    expect(stdout).toBe('');
+  });
+
+  test('semantic relevance does not let working files carry an unrelated prompt', async () => {
+    // The shipped rules score BM25 relevance; a dirty tree with modified hook and skill files
+    const repo = makeRepo();
+    mkdirSync(join(repo, 'skills', 'Docs'), { recursive: true });
+    writeFileSync(join(repo, 'skills', 'Docs', 'SKILL.md'), '# Docs\n');
+    Bun.spawnSync(['git', 'add', '-A'], { cwd: repo });
+    Bun.spawnSync(['git', '-c', 'user.name=t', '-c', 'user.email=t@example.com', 'commit', '-qm', 'init'], { cwd: repo });
+    writeFileSync(join(repo, 'hooks', 'retry.hook.ts'), 'export const retries = 3;');
+    writeFileSync(join(repo, 'skills', 'Docs', 'SKILL.md'), '# Docs\n\nChanged.\n');
+
+    for (const text of ['fix the typo in the readme', 'rename the variable in utils']) {
+      const { stdout } = await runHook('hooks/skill-eval.hook.ts', { prompt: text, session_id: '' }, 5000, { cwd: repo });
+      expect(stdout).toBe('');
+    }
+  });
+
+  test('settings.paths.git = false ignores the working tree', async () => {
+    const dir = makeFramework([hookRule], { paths: { git: false } }, intents);
+    const repo = makeRepo();
+
+    const { stdout } = await runHook('hooks/skill-eval.hook.ts', prompt, 5000, { frameworkDir: dir, cwd: repo });
+    expect(stdout).toBe('');
+  });
+
+  test('files touched earlier in the session count too', async () => {
+    const dir = makeFramework([hookRule], {}, intents);
+    const cwd = mkdtempSync(join(tmpdir(), 'captain-hooks-session-'));
+    const transcript = join(cwd, 'transcript.jsonl');
+    writeFileSync(transcript, JSON.stringify({
+      type: 'assistant',
+      message: { role: 'assistant', content: [{ type: 'tool_use', name: 'Edit', input: { file_path: join(cwd, 'hooks', 'retry.hook.ts') } }] },
+    }));
+
+    const touched = await runHook('hooks/skill-eval.hook.ts', { ...prompt, transcript_path: transcript }, 5000, { frameworkDir: dir, cwd });
+    expect(touched.stdout).toContain('Use HookAuthoring');
+
+    const off = makeFramework([hookRule], { paths: { session: false } }, intents);
+    const ignored = await runHook('hooks/skill-eval.hook.ts', { ...prompt, transcript_path: transcript }, 5000, { frameworkDir: off, cwd });
+    expect(ignored.stdout).toBe('');
+  });
+});
+
+describe('skill-eval conversation context', () => {
+  const refactorRule = (extra: Record<string, unknown> = {}) => ({
+    skill: 'Refactor',
+    type: 'proactive',
+    enforcement: 'suggest',
+    priority: 5,
+    triggers: { keywords: ['rename', 'extract', 'inline', 'refactor'] },
+    suggestion: 'Use Refactor for structural changes',
+    ...extra,
+  });
+
+  function writeTranscript(dir: string, prompts: string[]): string {
+    const path = join(dir, 'transcript.jsonl');
+    const lines = prompts.flatMap(p => [
+      { type: 'user', message: { role: 'user', content: p } },
+      { type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text: 'Done.' }] } },
+    ]);
+    writeFileSync(path, lines.map(l => JSON.stringify(l)).join('\n'));
+    return path;
+  }
+
+  const followUp = (dir: string, transcript: string) => runHook(
+    'hooks/skill-eval.hook.ts',
+    { prompt: 'now do the same for the other file', session_id: '', transcript_path: transcript },
+    5000,
+    { frameworkDir: dir },
+  );
+
+  test('a follow-up scores the previous turn at a decayed weight', async () => {
+    // One keyword one turn back: 0.5 x 2 / 8 = 12.5
+    const dir = makeFramework([refactorRule({ threshold: 10 })], { conversation: { turns: 2, decay: 0.5 } });
+    const { stdout } = await followUp(dir, writeTranscript(dir, ['rename the helper in utils.ts']));
+    expect(stdout).toContain('Use Refactor');
+  });
+
+  test('older turns decay below the threshold', async () => {
+    // Two turns back: 0.25 x 2 / 8 = 6.25
+    const dir = makeFramework([refactorRule({ threshold: 10 })], { conversation: { turns: 2, decay: 0.5 } });
+    const { stdout } = await followUp(dir, writeTranscript(dir, ['rename the helper in utils.ts', 'what time is it']));
+    expect(stdout).toBe('');
+  });
+
+  test('without settings.conversation only the prompt is scored', async () => {
+    const dir = makeFramework([refactorRule({ threshold: 10 })]);
+    const { stdout } = await followUp(dir, writeTranscript(dir, ['rename the helper in utils.ts']));
+    expect(stdout).toBe('');
+  });
+
+  test('skills selected on the previous prompt get the stickiness bonus', async () => {
+    // "inline" alone is 25, below 40; +20 stickiness carries it over
+    const dir = makeFramework([refactorRule({ threshold: 40 })], { conversation: { stickiness: 20 } });
+    const send = (prompt: string, session: string) => runHook(
+      'hooks/skill-eval.hook.ts',
+      { prompt, session_id: session },
+      5000,
+      { frameworkDir: dir },
+    );
+
+    expect((await send('rename and extract the parser', 'sticky-1')).stdout).toContain('Refactor');
+    expect((await send('now inline it', 'sticky-1')).stdout).toContain('Refactor');
+    expect((await send('now inline it', 'sticky-2')).stdout).toBe('');
+  });
+
+  test('explain mode labels matches from earlier turns', async () => {
+    const dir = makeFramework([refactorRule({ threshold: 10 })], { conversation: { turns: 1 } });
+    const transcript = writeTranscript(dir, ['rename the helper in utils.ts']);
+    const proc = Bun.spawn(['bun', join(ROOT, 'hooks/skill-eval.hook.ts')], {
+      stdin: new Response(JSON.stringify({ prompt: 'now do the same for the other file', session_id: '', transcript_path: transcript })),
+      stdout: 'pipe',
+      stderr: 'pipe',
+      env: { ...process.env, CLAUDE_CONFIG_DIR: EMPTY_CONFIG_DIR, CLAUDE_PROJECT_DIR: dir, SKILL_EVAL_EXPLAIN: '1' },
+    });
+    await proc.exited;
+    expect(await new Response(proc.stderr).text()).toContain('matched: rename (turn -1)');
+  });
+});
+
+describe('skill-eval compiled rule cache', () => {
+  const deploy = (suggestion: string, patterns: string[] = []) => ({
+    skill: 'Deploy',
+    type: 'proactive',
+    enforcement: 'suggest',
+    priority: 5,
+    triggers: { keywords: ['deploy'], patterns },
+    suggestion,
+  });
+  const send = (dir: string) =>
+    runHook('hooks/skill-eval.hook.ts', { prompt: 'deploy the api', session_id: '' }, 5000, { frameworkDir: dir });
+  const cacheFile = (dir: string) => join(dir, 'memory', 'cache', 'compiled-rules.json');
+
+  test('serves rules from the cache until a layer file changes', async () => {
+    const dir = makeFramework([deploy('Use Deploy')]);
+    expect((await send(dir)).stdout).toContain('Use Deploy');
+
+    // A hit reads the cache, not skill-rules.json
+    const cached = JSON.parse(readFileSync(cacheFile(dir), 'utf-8'));
+    cached.rules.rules[0].suggestion = 'From the cache';
+    writeFileSync(cacheFile(dir), JSON.stringify(cached));
+    expect((await send(dir)).stdout).toContain('From the cache');
+
+    const rulesPath = join(dir, 'skills', 'skill-rules.json');
+    const rules = JSON.parse(readFileSync(rulesPath, 'utf-8'));
+    rules.rules[0] = deploy('Use the new Deploy checklist');
+    writeFileSync(rulesPath, JSON.stringify(rules));
+    expect((await send(dir)).stdout).toContain('Use the new Deploy checklist');
+
+    writeFileSync(join(dir, 'skills', 'skill-rules.local.json'), JSON.stringify({ rules: [{ skill: 'Deploy', merge: 'disable' }] }));
+    expect((await send(dir)).stdout).toBe('');
+  });
+
+  test('invalid patterns are reported once and never match', async () => {
+    const dir = makeFramework([deploy('Use Deploy', ['(unclosed', '\\bapi\\b'])], {}, {
+      exclusions: { prefixes: ['/'], patterns: ['[z-a]'] },
+    });
+
+    const first = await send(dir);
+    expect(first.stdout).toContain('Use Deploy');
+    expect(first.stderr).toContain('Invalid pattern in rule Deploy triggers.patterns: (unclosed');
+    expect(first.stderr).toContain('Invalid pattern in exclusions.patterns: [z-a]');
+
+    const second = await send(dir);
+    expect(second.stdout).toContain('Use Deploy');
+    expect(second.stderr).not.toContain('Invalid pattern');
+
+    const listed = await runHook('hooks/skill-eval.hook.ts', {}, 5000, { frameworkDir: dir, args: ['--rules'] });
+    expect(listed.stdout).toContain('Invalid patterns (2, never match):');
+    expect(listed.stdout).toContain('rule Deploy triggers.patterns: (unclosed');
+  });
+});
+
+describe('skill-eval telemetry', () => {
+  const deploy = {
+    skill: 'Deploy',
+    type: 'proactive',
+    enforcement: 'suggest',
+    priority: 5,
+    triggers: { keywords: ['deploy', 'release'] },
+    suggestion: 'Use Deploy',
+  };
+  const docs = { ...deploy, skill: 'Docs', threshold: 60, triggers: { keywords: ['release', 'readme', 'docs', 'guide'] } };
+
+  const readLog = (dir: string) =>
+    readFileSync(join(dir, 'memory', 'telemetry', 'skill-eval.jsonl'), 'utf-8').trim().split('\n').map(l => JSON.parse(l));
+
+  test('appends one record per prompt with hashed prompt, candidates and selection', async () => {
+    const dir = makeFramework([deploy, docs]);
+    await runHook('hooks/skill-eval.hook.ts', { prompt: 'deploy the release', session_id: 'tel-1' }, 5000, { frameworkDir: dir });
+    await runHook('hooks/skill-eval.hook.ts', { prompt: '/compact', session_id: 'tel-1' }, 5000, { frameworkDir: dir });
+
+    const [evaluated, excluded] = readLog(dir);
+    expect(evaluated.session).toBe('tel-1');
+    expect(evaluated.promptHash).toMatch(/^[0-9a-f]{16}$/);
+    expect(evaluated.prompt).toBeUndefined();
+    expect(JSON.stringify(evaluated)).not.toContain('deploy the release');
+    expect(evaluated.selected).toEqual([{ skill: 'Deploy', enforcement: 'suggest', score: 100 }]);
+    expect(evaluated.candidates).toEqual([
+      { skill: 'Deploy', score: 100, threshold: 25 },
+      { skill: 'Docs', score: 25, threshold: 60 },
+    ]);
+    expect(typeof evaluated.ms).toBe('number');
+    expect(excluded.excluded).toBe('prefix "/"');
+  });
+
+  test('rawPrompt keeps the text; enabled = false writes nothing; --explain never records', async () => {
+    const raw = makeFramework([deploy], { telemetry: { rawPrompt: true } });
+    await runHook('hooks/skill-eval.hook.ts', { prompt: 'deploy it', session_id: 'tel-2' }, 5000, { frameworkDir: raw });
+    expect(readLog(raw)[0].prompt).toBe('deploy it');
+
+    const off = makeFramework([deploy], { telemetry: { enabled: false } });
+    await runHook('hooks/skill-eval.hook.ts', { prompt: 'deploy it', session_id: 'tel-3' }, 5000, { frameworkDir: off });
+    await runHook('hooks/skill-eval.hook.ts', {}, 5000, { frameworkDir: raw, args: ['--explain', 'deploy it'] });
+    expect(existsSync(join(off, 'memory', 'telemetry'))).toBe(false);
+    expect(readLog(raw)).toHaveLength(1);
+  });
+
+  test('runs against the shipped rules log to the test project, not the repo', async () => {
+    const repoLog = join(ROOT, 'memory', 'telemetry', 'skill-eval.jsonl');
+    const before = existsSync(repoLog) ? readFileSync(repoLog, 'utf-8') : null;
+    await runHook('hooks/skill-eval.hook.ts', { prompt: 'create a new skill for my project', session_id: 'tel-4' });
+
+    expect(readLog(PROJECT_DIR).some(r => r.session === 'tel-4')).toBe(true);
+    expect(existsSync(repoLog) ? readFileSync(repoLog, 'utf-8') : null).toBe(before);
   });
+});
 
-  test('expandPath leaves absolute paths untouched', () => {
-    expect(expandPath('/usr/local/bin')).toBe('/usr/local/bin');
+describe('skill-eval explain mode', () => {
+  const explainRules = [
+    {
+      skill: 'Testing',
+      type: 'proactive',
+      enforcement: 'suggest',
+      priority: 8,
+      triggers: { keywords: ['test', 'spec'], intents: [] },
+      suggestion: 'Use Testing',
+    },
+    {
+      skill: 'Lint',
+      type: 'proactive',
+      enforcement: 'suggest',
+      priority: 5,
+      triggers: { keywords: ['test', 'lint'] },
+      suggestion: 'Use Lint',
+    },
+    {
+      skill: 'Deploy',
+      type: 'proactive',
+      enforcement: 'suggest',
+      priority: 5,
+      triggers: { keywords: ['deploy', 'release', 'ship', 'rollout', 'publish'] },
+      suggestion: 'Use Deploy',
+    },
+  ];
+
+  async function explain(dir: string, prompt: string) {
+    const proc = Bun.spawn(['bun', join(ROOT, 'hooks/skill-eval.hook.ts'), '--explain', prompt], {
+      stdout: 'pipe',
+      stderr: 'pipe',
+      cwd: dir,
+      env: { ...process.env, CLAUDE_PROJECT_DIR: dir },
+    });
+    const timer = setTimeout(() => proc.kill(), 5000);
+    const exitCode = await proc.exited;
+    clearTimeout(timer);
+    return { stdout: (await new Response(proc.stdout).text()).trim(), exitCode };
+  }
+
+  test('--explain shows matched keywords, ranks and cut-offs', async () => {
+    const dir = makeFramework(explainRules, { maxSuggestions: 1 });
+    const result = await explain(dir, 'write a test spec before we ship');
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('Testing (proactive, suggest, priority 8) — SELECTED #1');
+    expect(result.stdout).toContain('matched: test, spec');
+    expect(result.stdout).toContain('Lint (proactive, suggest, priority 5) — CUT: rank 2 exceeds maxSuggestions 1');
+    expect(result.stdout).toContain('Deploy (proactive, suggest, priority 5) — EXCLUDED: below threshold');
+    expect(result.stdout).not.toContain('<system-reminder>');
   });
 
-  test('getFrameworkDir uses CLAUDE_PROJECT_DIR env', () => {
-    const orig = process.env.CLAUDE_PROJECT_DIR;
-    process.env.CLAUDE_PROJECT_DIR = '/tmp/test-framework';
-    expect(getFrameworkDir()).toBe('/tmp/test-framework');
-    if (orig) process.env.CLAUDE_PROJECT_DIR = orig;
-    else delete process.env.CLAUDE_PROJECT_DIR;
+  test('--explain reports prompt exclusions', async () => {
+    const dir = makeFramework(explainRules);
+    const result = await explain(dir, '/commit the test');
+    expect(result.stdout).toContain('Prompt excluded by prefix "/"');
   });
-});
 
-// ============================================================
-// identity.ts
-// ============================================================
+  test('SKILL_EVAL_EXPLAIN=1 writes the report to stderr alongside normal output', async () => {
+    const dir = makeFramework(explainRules);
+    const proc = Bun.spawn(['bun', join(ROOT, 'hooks/skill-eval.hook.ts')], {
+      stdin: new Response(JSON.stringify({ prompt: 'write a test spec' })),
+      stdout: 'pipe',
+      stderr: 'pipe',
+      cwd: dir,
+      env: { ...process.env, CLAUDE_PROJECT_DIR: dir, SKILL_EVAL_EXPLAIN: '1' },
+    });
+    await proc.exited;
+    const stdout = await new Response(proc.stdout).text();
+    const stderr = await new Response(proc.stderr).text();
 
-describe('hooks/lib/identity', () => {
-  test('returns defaults when settings.json has default values', () => {
-    // Settings.json in the repo has default "Assistant" and "User"
-    const settings = JSON.parse(
-      readFileSync(join(ROOT, 'settings.json'), 'utf-8'),
-    );
-    expect(settings.identity.name).toBe('Assistant');
-    expect(settings.principal.name).toBe('User');
+    expect(stdout).toContain('<system-reminder>');
+    expect(stdout).not.toContain('skill-eval explain');
+    expect(stderr).toContain('SELECTED #1');
   });
 });
 
 // ============================================================
-// skill-eval.hook.ts — scoring engine
+// skill-reactive.hook.ts — PostToolUse evaluation
 // ============================================================
 
-describe('skill-eval scoring', () => {
-  test('matching prompt activates skill and returns system-reminder', async () => {
+describe('skill-reactive', () => {
+  const migrationsRule = {
+    skill: 'Migrations',
+    type: 'reactive',
+    enforcement: 'suggest',
+    priority: 7,
+    triggers: {
+      tools: ['Write', 'Edit'],
+      directories: ['db/migrations/'],
+      fileTypes: ['.sql'],
+    },
+    suggestion: 'Use Migrations to review the new migration',
+  };
+
+  test('Write to a matching directory suggests the reactive skill', async () => {
+    const dir = makeFramework([migrationsRule]);
     const { stdout, exitCode } = await runHook(
-      'hooks/skill-eval.hook.ts',
-      { prompt: 'create a new skill for my project', session_id: 'test-1' },
+      'hooks/skill-reactive.hook.ts',
+      {
+        tool_name: 'Write',
+        tool_input: { file_path: 'db/migrations/002_add_users.sql', content: 'CREATE TABLE users ();' },
+        session_id: 'test-react-1',
+      },
+      5000,
+      { frameworkDir: dir, cwd: dir },
     );
 
     expect(exitCode).toBe(0);
     expect(stdout).toContain('<system-reminder>');
-    expect(stdout).toContain('CreateSkill');
+    expect(stdout).toContain('Migrations');
   });
 
-  test('excluded prompt (slash command) produces no output', async () => {
+  test('tool not listed in triggers.tools is ignored', async () => {
+    const dir = makeFramework([migrationsRule]);
     const { stdout, exitCode } = await runHook(
-      'hooks/skill-eval.hook.ts',
-      { prompt: '/help', session_id: 'test-2' },
+      'hooks/skill-reactive.hook.ts',
+      {
+        tool_name: 'Read',
+        tool_input: { file_path: 'db/migrations/002_add_users.sql' },
+        session_id: 'test-react-2',
+      },
+      5000,
+      { frameworkDir: dir, cwd: dir },
     );
 
     expect(exitCode).toBe(0);
     expect(stdout).toBe('');
   });
 
-  test('excluded prompt (greeting) produces no output', async () => {
+  test('command and tool output are scored for Bash', async () => {
+    const dir = makeFramework([{
+      skill: 'TestFailures',
+      type: 'reactive',
+      enforcement: 'suggest',
+      priority: 5,
+      triggers: { tools: ['Bash'], patterns: ['\\d+ fail'] },
+      suggestion: 'Use TestFailures to triage the failing tests',
+    }]);
     const { stdout, exitCode } = await runHook(
-      'hooks/skill-eval.hook.ts',
-      { prompt: 'hello there', session_id: 'test-3' },
+      'hooks/skill-reactive.hook.ts',
+      {
+        tool_name: 'Bash',
+        tool_input: { command: 'bun test' },
+        tool_output: ' 12 pass\n 2 fail\n',
+        session_id: 'test-react-3',
+      },
+      5000,
+      { frameworkDir: dir, cwd: dir },
     );
 
     expect(exitCode).toBe(0);
-    expect(stdout).toBe('');
+    expect(stdout).toContain('TestFailures');
   });
 
-  test('unrelated prompt below threshold produces no output', async () => {
+  test('proactive rules are not evaluated on PostToolUse', async () => {
     const { stdout, exitCode } = await runHook(
-      'hooks/skill-eval.hook.ts',
-      { prompt: 'what is the weather today', session_id: 'test-4' },
+      'hooks/skill-reactive.hook.ts',
+      {
+        tool_name: 'Write',
+        tool_input: { file_path: 'skills/NewSkill/SKILL.md' },
+        session_id: 'test-react-4',
+      },
     );
 
     expect(exitCode).toBe(0);
     expect(stdout).toBe('');
   });
+});
+
+// ============================================================
+// security-validator — skill guard rules
+// ============================================================
+
+describe('security-validator skill guards', () => {
+  const terraformGuard = {
+    skill: 'Terraform',
+    type: 'guard',
+    enforcement: 'require',
+    priority: 9,
+    triggers: { tools: ['Write', 'Edit'], directories: ['infra/'] },
+    suggestion: 'Use Terraform before changing infrastructure code',
+  };
+
+  test('require guard blocks and points at the skill', async () => {
+    const dir = makeFramework([terraformGuard]);
+    const { stdout, exitCode } = await runHook(
+      'hooks/security-validator.hook.ts',
+      {
+        tool_name: 'Edit',
+        tool_input: { file_path: 'infra/main.tf', old_string: 'a', new_string: 'b' },
+        session_id: 'test-guard-1',
+      },
+      5000,
+      { frameworkDir: dir, cwd: dir },
+    );
+
+    expect(exitCode).toBe(0);
+    const result = JSON.parse(stdout);
+    expect(result.decision).toBe('block');
+    expect(result.message).toContain('skills/Terraform/SKILL.md');
+  });
 
-  test('empty prompt exits cleanly', async () => {
+  test('inject guard asks for confirmation', async () => {
+    const dir = makeFramework([{ ...terraformGuard, enforcement: 'inject' }]);
     const { stdout, exitCode } = await runHook(
-      'hooks/skill-eval.hook.ts',
-      { prompt: '', session_id: 'test-5' },
+      'hooks/security-validator.hook.ts',
+      {
+        tool_name: 'Write',
+        tool_input: { file_path: 'infra/vpc.tf', content: 'resource "aws_vpc" "main" {}' },
+        session_id: 'test-guard-2',
+      },
+      5000,
+      { frameworkDir: dir, cwd: dir },
     );
 
     expect(exitCode).toBe(0);
-    expect(stdout).toBe('');
+    expect(JSON.parse(stdout).decision).toBe('ask');
+  });
+
+  test('guard is satisfied once the skill was read in the session', async () => {
+    const dir = makeFramework([terraformGuard]);
+    const transcript = join(dir, 'transcript.jsonl');
+    writeFileSync(transcript, JSON.stringify({
+      type: 'assistant',
+      message: {
+        role: 'assistant',
+        content: [{ type: 'tool_use', name: 'Read', input: { file_path: join(dir, 'skills/Terraform/SKILL.md') } }],
+      },
+    }) + '\n');
+
+    const { stdout, exitCode } = await runHook(
+      'hooks/security-validator.hook.ts',
+      {
+        tool_name: 'Edit',
+        tool_input: { file_path: 'infra/main.tf', old_string: 'a', new_string: 'b' },
+        session_id: 'test-guard-3',
+        transcript_path: transcript,
+      },
+      5000,
+      { frameworkDir: dir, cwd: dir },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout).continue).toBe(true);
+  });
+
+  test('guard does not fire for other tools or paths', async () => {
+    const dir = makeFramework([terraformGuard]);
+    for (const call of [
+      { tool_name: 'Read', tool_input: { file_path: 'infra/main.tf' } },
+      { tool_name: 'Edit', tool_input: { file_path: 'src/app.ts', old_string: 'a', new_string: 'b' } },
+    ]) {
+      const { stdout, exitCode } = await runHook(
+        'hooks/security-validator.hook.ts',
+        { ...call, session_id: 'test-guard-4' },
+        5000,
+        { frameworkDir: dir, cwd: dir },
+      );
+
+      expect(exitCode).toBe(0);
+      expect(JSON.parse(stdout).continue).toBe(true);
+    }
   });
 });
 
@@ -456,6 +2167,67 @@ describe('security-validator bypass resistance', () => {
     expect(result.decision).toBe('block');
   });
 
+  test('blocks commands hidden in -c strings, substitutions, eval and encoded pipes', async () => {
+    const encoded = Buffer.from('rm -rf /').toString('base64');
+    for (const command of [
+      'bash -c "rm -rf /"',
+      'echo $(rm -rf ~)',
+      'echo `mkfs.ext4 /dev/sda`',
+      "eval 'rm -rf /'",
+      'sudo -u root /bin/rm -r -f "/"',
+      `echo ${encoded} | base64 -d | sh`,
+      "cat ~/'.ssh'/id_rsa",
+    ]) {
+      const { stdout } = await runHook(
+        'hooks/security-validator.hook.ts',
+        { tool_name: 'Bash', tool_input: { command }, session_id: 'test-bypass-shell' },
+      );
+      expect({ command, decision: JSON.parse(stdout).decision }).toEqual({ command, decision: 'block' });
+    }
+  });
+
+  test('commands past the analysis limits fail closed', async () => {
+    const nested = `echo ${'$('.repeat(9)}rm -rf /${')'.repeat(9)}`;
+    for (const command of ['true; '.repeat(260) + "bash -c 'rm -rf /'", nested]) {
+      const { stdout } = await runHook(
+        'hooks/security-validator.hook.ts',
+        { tool_name: 'Bash', tool_input: { command }, session_id: 'test-bypass-limits' },
+      );
+      const result = JSON.parse(stdout);
+      expect(result.decision).toBe('block');
+      expect(result.message).toContain('rule "analysis-truncated" (high)');
+    }
+
+    // Without block rules the fallback asks
+    const dir = makePolicy([
+      'commands:',
+      '  - id: ask-rm',
+      '    reason: rm deletes files',
+      '    action: ask',
+      '    program: rm',
+    ].join('\n'));
+    const { stdout } = await runHook(
+      'hooks/security-validator.hook.ts',
+      { tool_name: 'Bash', tool_input: { command: nested.replace('rm -rf /', 'ls') }, session_id: 'test-bypass-limits' },
+      5000,
+      { frameworkDir: dir },
+    );
+    expect(JSON.parse(stdout).decision).toBe('ask');
+  });
+
+  test('program/args rules match one simple command: find / -delete, xargs rm -r', async () => {
+    const run = async (command: string) => JSON.parse((await runHook(
+      'hooks/security-validator.hook.ts',
+      { tool_name: 'Bash', tool_input: { command }, session_id: 'test-bypass-args' },
+    )).stdout);
+
+    const find = await run('find / -name "*.log" -delete');
+    expect(find.decision).toBe('block');
+    expect(find.message).toContain('rule "find-delete-root"');
+    expect((await run('find . -name "*.log" -delete')).continue).toBe(true);
+    expect((await run('git ls-files | xargs rm -rf')).decision).toBe('ask');
+  });
+
   test('allows safe rm command: rm temp.txt', async () => {
     const { stdout, exitCode } = await runHook(
       'hooks/security-validator.hook.ts',
@@ -522,6 +2294,77 @@ describe('security-validator file path protection', () => {
     expect(result.continue).toBe(true);
   });
 
+  test('protected prefixes compare whole path segments: ~/.sshfoo is not ~/.ssh', async () => {
+    for (const [tool_input, tool_name] of [
+      [{ file_path: `${process.env.HOME}/.sshfoo/notes.txt` }, 'Read'],
+      [{ command: 'ls ~/.ssh-backup-notes' }, 'Bash'],
+    ] as const) {
+      const { stdout } = await runHook(
+        'hooks/security-validator.hook.ts',
+        { tool_name, tool_input, session_id: 'test-path-segment' },
+      );
+      expect(JSON.parse(stdout).continue).toBe(true);
+    }
+  });
+
+  test('symlinks into a protected path are followed, including for files that do not exist yet', async () => {
+    const secret = mkdtempSync(join(tmpdir(), 'captain-hooks-secret-'));
+    writeFileSync(join(secret, 'key'), 'private');
+    const repo = mkdtempSync(join(tmpdir(), 'captain-hooks-repo-'));
+    symlinkSync(secret, join(repo, 'linked'));
+    symlinkSync(join(secret, 'key'), join(repo, 'key-link'));
+    const dir = makePolicy([
+      'paths:',
+      '  - id: secret-dir',
+      '    reason: Test secrets',
+      '    action: block',
+      `    path: ${secret}`,
+    ].join('\n'));
+    const decision = async (tool_name: string, tool_input: Record<string, unknown>) => JSON.parse((await runHook(
+      'hooks/security-validator.hook.ts',
+      { tool_name, tool_input, session_id: 'test-path-symlink' },
+      5000,
+      { frameworkDir: dir, cwd: repo },
+    )).stdout).decision;
+
+    expect(await decision('Read', { file_path: join(repo, 'linked', 'key') })).toBe('block');
+    expect(await decision('Read', { file_path: join(repo, 'key-link') })).toBe('block');
+    expect(await decision('Write', { file_path: join(repo, 'linked', 'new', 'file.txt'), content: 'x' })).toBe('block');
+    expect(await decision('Bash', { command: 'cat linked/key' })).toBe('block');
+    expect(await decision('Bash', { command: 'echo x > key-link' })).toBe('block');
+    expect(await decision('Read', { file_path: join(repo, 'README.md') })).toBeUndefined();
+  });
+
+  test('path globs are relative to the project root and home, with negation', async () => {
+    const project = mkdtempSync(join(tmpdir(), 'captain-hooks-project-'));
+    const dir = makePolicy([
+      'paths:',
+      '  - id: deploy-keys',
+      '    reason: Deploy keys are provisioned by CI',
+      '    action: block',
+      "    path: ['deploy/**/*.key', '!deploy/**/test.key']",
+      '  - id: env-files',
+      '    reason: Environment files hold secrets',
+      '    action: ask',
+      "    path: ['.env*', '!.env.example']",
+      '    tools: [Write, Edit, Bash]',
+    ].join('\n'));
+    const decision = async (tool_name: string, tool_input: Record<string, unknown>) => JSON.parse((await runHook(
+      'hooks/security-validator.hook.ts',
+      { tool_name, tool_input, session_id: 'test-path-glob' },
+      5000,
+      { frameworkDir: dir, cwd: project },
+    )).stdout).decision;
+
+    // CLAUDE_PROJECT_DIR is the policy dir here; the project is the hook's cwd for Bash operands
+    expect(await decision('Read', { file_path: join(dir, 'deploy', 'eu', 'prod.key') })).toBe('block');
+    expect(await decision('Read', { file_path: join(dir, 'deploy', 'eu', 'test.key') })).toBeUndefined();
+    expect(await decision('Read', { file_path: '/opt/deploy/eu/prod.key' })).toBeUndefined();
+    expect(await decision('Edit', { file_path: '/srv/app/.env.production.local' })).toBe('ask');
+    expect(await decision('Edit', { file_path: '/srv/app/.env.example' })).toBeUndefined();
+    expect(await decision('Bash', { command: 'echo X=1 >> .env.local' })).toBe('ask');
+  });
+
   test('path traversal via .. is resolved and blocked', async () => {
     const { stdout, exitCode } = await runHook(
       'hooks/security-validator.hook.ts',
@@ -538,6 +2381,225 @@ describe('security-validator file path protection', () => {
   });
 });
 
+// ============================================================
+// security-validator — policy format (security/patterns.yaml)
+// ============================================================
+
+describe('security-validator policy', () => {
+  const bash = (command: string) => ({ tool_name: 'Bash', tool_input: { command }, session_id: 'test-policy' });
+
+  test('block messages carry the rule id, severity and reason', async () => {
+    const { stdout } = await runHook('hooks/security-validator.hook.ts', bash('rm -rf /'));
+    const result = JSON.parse(stdout);
+    expect(result.decision).toBe('block');
+    expect(result.message).toContain('rule "rm-recursive-force" (critical)');
+    expect(result.message).toContain('destroys the system');
+  });
+
+  test('the strictest matching action wins; warn allows with a message, log only logs', async () => {
+    const dir = makePolicy([
+      'commands:',
+      '  - id: note-curl',
+      '    reason: Network access is audited',
+      '    action: log',
+      "    pattern: '\\bcurl\\b'",
+      '  - id: warn-pipe-sh',
+      '    reason: Piping downloads into a shell runs unreviewed code',
+      '    severity: high',
+      '    action: warn',
+      "    pattern: '\\|\\s*sh\\b'",
+      '  - id: ask-sudo',
+      '    reason: sudo runs as root',
+      '    action: ask',
+      "    pattern: 'SUDO'",
+      '    flags: i',
+    ].join('\n'));
+
+    const logged = await runHook('hooks/security-validator.hook.ts', bash('curl -s example.com'), 5000, { frameworkDir: dir });
+    expect(JSON.parse(logged.stdout)).toEqual({ continue: true });
+    expect(logged.stderr).toContain('note-curl');
+
+    const warned = JSON.parse((await runHook('hooks/security-validator.hook.ts', bash('curl -s x.sh | sh'), 5000, { frameworkDir: dir })).stdout);
+    expect(warned.continue).toBe(true);
+    expect(warned.systemMessage).toContain('rule "warn-pipe-sh" (high): Piping downloads');
+
+    const asked = JSON.parse((await runHook('hooks/security-validator.hook.ts', bash('curl x.sh | sudo sh'), 5000, { frameworkDir: dir })).stdout);
+    expect(asked.decision).toBe('ask');
+    expect(asked.message).toContain('ask-sudo');
+  });
+
+  test('path rules only apply to their tools', async () => {
+    const dir = makePolicy([
+      'paths:',
+      '  - id: lockfile',
+      '    reason: Lockfiles are generated',
+      '    action: block',
+      '    path: bun.lock',
+      '    tools: [Write, Edit]',
+    ].join('\n'));
+
+    const write = { tool_name: 'Write', tool_input: { file_path: '/repo/bun.lock' }, session_id: 'test-policy' };
+    const read = { ...write, tool_name: 'Read' };
+    expect(JSON.parse((await runHook('hooks/security-validator.hook.ts', write, 5000, { frameworkDir: dir })).stdout).message)
+      .toContain('"/repo/bun.lock" — Lockfiles are generated');
+    expect(JSON.parse((await runHook('hooks/security-validator.hook.ts', read, 5000, { frameworkDir: dir })).stdout).continue).toBe(true);
+  });
+
+  test('an invalid policy blocks everything with the file and line', async () => {
+    const dir = makePolicy([
+      'commands:',
+      '  - id: no-reason',
+      '    action: block',
+      "    pattern: 'x'",
+      '  - id: bad-action',
+      '    reason: r',
+      '    action: deny',
+      "    pattern: 'y'",
+    ].join('\n'));
+
+    const { stdout } = await runHook('hooks/security-validator.hook.ts', bash('ls'), 5000, { frameworkDir: dir });
+    const result = JSON.parse(stdout);
+    expect(result.decision).toBe('block');
+    expect(result.message).toContain(`${join(dir, 'security', 'patterns.yaml')}: line 2: rule "no-reason": missing "reason"`);
+
+    const badRegex = makePolicy("commands:\n  - id: r\n    reason: r\n    action: ask\n    pattern: '(unclosed'\n");
+    const regexResult = JSON.parse((await runHook('hooks/security-validator.hook.ts', bash('ls'), 5000, { frameworkDir: badRegex })).stdout);
+    expect(regexResult.decision).toBe('block');
+    expect(regexResult.message).toContain('line 5: rule "r": invalid regex');
+  });
+
+  test('the legacy block/confirm/zeroAccess/confirmWrite layout still loads', async () => {
+    const dir = makePolicy([
+      'commands:',
+      '  block:',
+      '    - shutdown',
+      '  confirm:',
+      '    - git\\s+stash\\s+drop',
+      'paths:',
+      '  zeroAccess:',
+      '    - "/srv/vault"',
+      '  confirmWrite:',
+      '    - ".npmrc"',
+      '    - ".env"',
+    ].join('\n'));
+    const run = async (input: Record<string, unknown>) =>
+      JSON.parse((await runHook('hooks/security-validator.hook.ts', input, 5000, { frameworkDir: dir })).stdout);
+
+    expect((await run(bash('sudo shutdown now'))).decision).toBe('block');
+    expect((await run(bash('git stash drop'))).decision).toBe('ask');
+    expect((await run(bash('cat /srv/vault/key'))).decision).toBe('block');
+    expect((await run({ tool_name: 'Read', tool_input: { file_path: '/srv/vault/key' }, session_id: 's' })).decision).toBe('block');
+    expect((await run({ tool_name: 'Edit', tool_input: { file_path: '/home/u/.npmrc' }, session_id: 's' })).decision).toBe('ask');
+    expect((await run({ tool_name: 'Read', tool_input: { file_path: '/home/u/.npmrc' }, session_id: 's' })).continue).toBe(true);
+    // Legacy confirmWrite names were substrings: .env still covers .env.local
+    expect((await run({ tool_name: 'Write', tool_input: { file_path: '/repo/.env.local' }, session_id: 's' })).decision).toBe('ask');
+  });
+});
+
+describe('security-validator tool coverage', () => {
+  const run = async (tool_name: string, tool_input: Record<string, unknown>, frameworkDir?: string) =>
+    JSON.parse((await runHook('hooks/security-validator.hook.ts', { tool_name, tool_input, session_id: 'test-tools' }, 5000,
+      frameworkDir ? { frameworkDir } : {})).stdout);
+
+  test('path rules see Grep, Glob and NotebookEdit targets', async () => {
+    expect((await run('Grep', { pattern: 'BEGIN', path: '~/.ssh' })).message).toContain('rule "ssh-dir"');
+    expect((await run('Glob', { pattern: '**/*', path: `${process.env.HOME}/.aws/credentials` })).decision).toBe('block');
+    expect((await run('Glob', { pattern: `${process.env.HOME}/.gnupg/*.gpg` })).decision).toBe('block');
+    expect((await run('NotebookEdit', { notebook_path: '/repo/.env.local', new_source: 'x' })).decision).toBe('ask');
+    expect((await run('Grep', { pattern: 'TODO', path: '/repo/src' })).continue).toBe(true);
+  });
+
+  test("Grep's glob filter counts toward its search root", async () => {
+    const result = await run('Grep', { pattern: 'BEGIN', path: process.env.HOME, glob: '.ssh/**' });
+    expect(result.decision).toBe('block');
+    expect(result.message).toContain('rule "ssh-dir"');
+    expect((await run('Grep', { pattern: 'BEGIN', path: process.env.HOME, glob: 'notes/**/*.md' })).continue).toBe(true);
+  });
+
+  test('searching from above a protected path reaches it', async () => {
+    expect((await run('Grep', { path: '~/.aws', pattern: 'aws_secret' })).message).toContain('rule "aws-credentials"');
+    expect((await run('Grep', { path: '~', pattern: 'PRIVATE KEY' })).message).toContain('rule "ssh-dir"');
+    expect((await run('Grep', { path: '~', pattern: 'PRIVATE KEY', glob: '*.pem' })).decision).toBe('block');
+    expect((await run('Glob', { path: '~/.aws', pattern: '*' })).message).toContain('rule "aws-credentials"');
+    expect((await run('Glob', { pattern: '~/.s*/*' })).message).toContain('rule "ssh-dir"');
+    for (const command of ['grep -r PRIVATE ~', 'grep -rn -e PRIVATE "$HOME"', 'rg PRIVATE ~/.aws', 'find ~ -name "*.pem"']) {
+      expect({ command, decision: (await run('Bash', { command })).decision }).toEqual({ command, decision: 'block' });
+    }
+    expect((await run('Bash', { command: 'grep PRIVATE ~/notes.txt' })).continue).toBe(true);
+    expect((await run('Bash', { command: 'rg -e / src' })).continue).toBe(true);
+    expect((await run('Grep', { path: '/repo', pattern: 'PRIVATE KEY' })).continue).toBe(true);
+  });
+
+  test('searching above a path under a non-blocking rule asks', async () => {
+    const dir = makePolicy([
+      'paths:',
+      '  - id: kube-config',
+      '    reason: kubeconfig holds cluster credentials',
+      '    action: warn',
+      '    path: ~/.kube/config',
+    ].join('\n'));
+    const result = await run('Grep', { path: '~', pattern: 'token' }, dir);
+    expect(result.decision).toBe('ask');
+    expect(result.message).toContain('rule "kube-config"');
+    expect((await run('Read', { file_path: '~/.kube/config' }, dir)).continue).toBe(true);
+  });
+
+  test('brace alternations are expanded before the search root is taken', async () => {
+    expect((await run('Glob', { pattern: '~/.{ssh,aws}/*' })).message).toContain('rule "ssh-dir"');
+    expect((await run('Glob', { pattern: '~/.{cache,aws/credentials}' })).message).toContain('rule "aws-credentials"');
+    expect((await run('Grep', { pattern: 'BEGIN', path: process.env.HOME, glob: '{notes,.gnupg}/**' })).message).toContain('rule "gnupg-dir"');
+    expect((await run('Glob', { pattern: '~/{docs,src}/**/*.md' })).continue).toBe(true);
+  });
+
+  test('MCP path arguments are checked against path rules', async () => {
+    const result = await run('mcp__filesystem__read_file', { path: `${process.env.HOME}/.ssh/id_ed25519` });
+    expect(result.decision).toBe('block');
+    expect(result.message).toContain('rule "ssh-dir"');
+    expect((await run('mcp__filesystem__read_file', { path: '/repo/README.md' })).continue).toBe(true);
+  });
+
+  test('the shipped policy blocks WebFetch to cloud metadata endpoints', async () => {
+    expect((await run('WebFetch', { url: 'http://169.254.169.254/latest/meta-data/', prompt: 'x' })).decision).toBe('block');
+    expect((await run('WebFetch', { url: 'https://example.com/169.254.169.254', prompt: 'x' })).continue).toBe(true);
+  });
+
+  test('tools rules are keyed by tool glob and match url, input and path together', async () => {
+    const dir = makePolicy([
+      'tools:',
+      "  'mcp__github__*':",
+      '    - id: prod-repo',
+      '      reason: The production repo changes through reviewed PRs',
+      '      action: block',
+      "      input: '^acme/production$'",
+      '  WebFetch:',
+      '    - id: internal-docs',
+      '      reason: Internal docs may hold secrets',
+      '      action: ask',
+      "      url: '^https://wiki\\.internal/'",
+      '  NotebookEdit:',
+      '    - id: notebooks',
+      '      reason: Notebooks are reviewed',
+      '      action: warn',
+    ].join('\n'));
+
+    const blocked = await run('mcp__github__create_pull_request', { repo: 'acme/production', title: 't' }, dir);
+    expect(blocked.message).toContain('rule "prod-repo" (medium): "mcp__github__create_pull_request" — The production repo');
+    expect((await run('mcp__github__create_pull_request', { repo: 'acme/site', title: 't' }, dir)).continue).toBe(true);
+    expect((await run('mcp__gitlab__create_mr', { repo: 'acme/production' }, dir)).continue).toBe(true);
+
+    const asked = await run('WebFetch', { url: 'https://wiki.internal/page', prompt: 'x' }, dir);
+    expect(asked.message).toContain('"https://wiki.internal/page"');
+    expect((await run('NotebookEdit', { notebook_path: '/w/a.ipynb', new_source: '' }, dir)).systemMessage).toContain('notebooks');
+  });
+
+  test('a tools entry that is not a rule list is reported with its line', async () => {
+    const dir = makePolicy('tools:\n  WebFetch:\n    id: x\n');
+    const result = await run('WebFetch', { url: 'https://example.com' }, dir);
+    expect(result.decision).toBe('block');
+    expect(result.message).toContain('line 2: tools.WebFetch must be a list of rules');
+  });
+});
+
 // ============================================================
 // context-loader.hook.ts
 // ============================================================
@@ -554,6 +2616,35 @@ describe('context-loader', () => {
     expect(stdout).toContain('Assistant');
     expect(stdout).toContain("User's AI assistant");
   });
+
+  test('trims CORE to the context-loader budget', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'captain-hooks-'));
+    mkdirSync(join(dir, 'skills', 'CORE'), { recursive: true });
+    writeFileSync(join(dir, 'skills', 'CORE', 'SKILL.md'), [
+      '# CORE',
+      '## Identity',
+      'CORE IDENTITY',
+      '## Customization',
+      'c'.repeat(500),
+      '',
+    ].join('\n'));
+    writeFileSync(join(dir, 'CLAUDE.md'), `# Project\n${'p'.repeat(500)}\n`);
+    writeFileSync(join(dir, 'settings.json'), JSON.stringify({
+      contextBudget: { 'context-loader': { maxChars: 200, sections: ['Identity'] } },
+    }));
+
+    const { stdout, exitCode } = await runHook(
+      'hooks/context-loader.hook.ts',
+      { session_id: 'test-ctx-2' },
+      5000,
+      { frameworkDir: dir },
+    );
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('CORE IDENTITY');
+    expect(stdout).toContain('[Context budget: omitted Customization — read skills/CORE/SKILL.md for the full text]');
+    expect(stdout).toContain('[Context budget: CLAUDE.md not loaded — read CLAUDE.md]');
+  });
 });
 
 // ============================================================
@@ -626,6 +2717,101 @@ describe('stop-orchestrator', () => {
   });
 });
 
+// ============================================================
+// require acknowledgment (skill-eval + Stop handler + guards)
+// ============================================================
+
+describe('require acknowledgment', () => {
+  const deployRule = {
+    skill: 'Deploy',
+    type: 'proactive',
+    enforcement: 'require',
+    priority: 9,
+    triggers: { keywords: ['deploy'] },
+    suggestion: 'Use the Deploy checklist',
+  };
+
+  // The Stop orchestrator discovers handlers under the framework dir
+  function makeAckFramework(rules: Record<string, unknown>[], settings: Record<string, unknown> = {}): string {
+    const dir = makeFramework(rules, settings);
+    symlinkSync(join(ROOT, 'hooks'), join(dir, 'hooks'));
+    return dir;
+  }
+
+  function respond(dir: string, prompt: string, reply: string): string {
+    const transcript = join(dir, 'transcript.jsonl');
+    writeFileSync(transcript, [
+      { type: 'user', message: { role: 'user', content: prompt } },
+      { type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text: reply }] } },
+    ].map(e => JSON.stringify(e)).join('\n'));
+    return transcript;
+  }
+
+  const prompt = (dir: string, text: string, session: string) =>
+    runHook('hooks/skill-eval.hook.ts', { prompt: text, session_id: session }, 5000, { frameworkDir: dir });
+  const stop = (dir: string, session: string, transcript: string) =>
+    runHook('hooks/stop-orchestrator.hook.ts', { session_id: session, transcript_path: transcript }, 5000, { frameworkDir: dir });
+  const state = (dir: string, session: string) =>
+    JSON.parse(readFileSync(join(dir, 'memory', 'sessions', `${session}.json`), 'utf-8'));
+
+  test('an ignored requirement is escalated on the next prompt until acknowledged', async () => {
+    const dir = makeAckFramework([deployRule]);
+
+    const first = await prompt(dir, 'deploy the api', 'ack-1');
+    expect(first.stdout).toContain('REQUIRED: Use the Deploy checklist');
+    expect(first.stdout).toContain('including "[ack: Deploy]"');
+
+    await stop(dir, 'ack-1', respond(dir, 'deploy the api', 'Deploying now.'));
+    expect(state(dir, 'ack-1').pending.Deploy.misses).toBe(1);
+
+    const second = await prompt(dir, 'what time is it', 'ack-1');
+    expect(second.stdout).toContain('REQUIRED (NOT ACKNOWLEDGED — last response ignored it): Use the Deploy checklist');
+
+    await stop(dir, 'ack-1', respond(dir, 'what time is it', '[ACK: Deploy] Following the checklist.'));
+    expect(state(dir, 'ack-1').pending).toEqual({});
+    expect(state(dir, 'ack-1').compliance).toEqual({ Deploy: { acknowledged: 1, ignored: 1 } });
+
+    const third = await prompt(dir, 'what time is it', 'ack-1');
+    expect(third.stdout).toBe('');
+  });
+
+  test('escalate = false records misses without repeating the requirement', async () => {
+    const dir = makeAckFramework([deployRule], { acknowledgment: { escalate: false, marker: 'ACK({skill})' } });
+
+    expect((await prompt(dir, 'deploy the api', 'ack-2')).stdout).toContain('including "ACK(Deploy)"');
+    await stop(dir, 'ack-2', respond(dir, 'deploy the api', 'Deploying now.'));
+    expect(state(dir, 'ack-2').compliance.Deploy.ignored).toBe(1);
+    expect((await prompt(dir, 'what time is it', 'ack-2')).stdout).toBe('');
+  });
+
+  test('blockGuards blocks guarded tools until the response carries the marker', async () => {
+    const guard = {
+      skill: 'Deploy',
+      type: 'guard',
+      enforcement: 'suggest',
+      priority: 9,
+      triggers: { tools: ['Bash'], keywords: ['deploy'] },
+      suggestion: 'Use the Deploy checklist',
+    };
+    const dir = makeAckFramework([deployRule, guard], { acknowledgment: { blockGuards: true } });
+    await prompt(dir, 'deploy the api', 'ack-3');
+
+    const bash = (transcript: string) => runHook(
+      'hooks/security-validator.hook.ts',
+      { tool_name: 'Bash', tool_input: { command: 'npm run deploy' }, session_id: 'ack-3', transcript_path: transcript },
+      5000,
+      { frameworkDir: dir },
+    );
+
+    const blocked = JSON.parse((await bash(respond(dir, 'deploy the api', 'Running it.'))).stdout);
+    expect(blocked.decision).toBe('block');
+    expect(blocked.message).toContain('Include "[ack: Deploy]"');
+
+    const allowed = JSON.parse((await bash(respond(dir, 'deploy the api', '[ack: Deploy] Running it.'))).stdout);
+    expect(allowed.continue).toBe(true);
+  });
+});
+
 // ============================================================
 // performance regression
 // ============================================================
@@ -655,6 +2841,39 @@ describe('performance regression', () => {
     expect(elapsed).toBeLessThan(200);
   });
 
+  test('skill-eval with 250 rules completes within 200ms wall clock once compiled', async () => {
+    const rules = Array.from({ length: 250 }, (_, i) => ({
+      skill: `Skill${i}`,
+      type: 'proactive',
+      enforcement: 'suggest',
+      priority: 5,
+      triggers: { keywords: [`topic${i}`, `area${i % 20}`, `area${i % 20} topic${i}`], patterns: [`\\bitem${i}\\b`], intents: ['create'] },
+      suggestion: `Use Skill${i}`,
+    }));
+    const dir = makeFramework(rules, {}, { intents: { create: { words: ['create', 'add'] } } });
+    const send = () => runHook('hooks/skill-eval.hook.ts', { prompt: 'add topic7 to area7', session_id: 'perf-4' }, 5000, { frameworkDir: dir });
+    await send();
+
+    const start = performance.now();
+    const { exitCode, stdout } = await send();
+    const elapsed = performance.now() - start;
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('Skill7');
+    expect(elapsed).toBeLessThan(200);
+  });
+
+  test('bench-rules reports load, scoring and hook timings for a generated rule set', async () => {
+    const proc = Bun.spawn(['bun', join(ROOT, 'scripts/bench-rules.ts'), '--rules', '200', '--runs', '2'], { stdout: 'pipe', stderr: 'pipe' });
+    const exitCode = await proc.exited;
+    const stdout = await new Response(proc.stdout).text();
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('Rules: 200');
+    expect(stdout).toMatch(/Load from cache\s+avg [\d.]+ ms/);
+    expect(stdout).toMatch(/skill-eval hook \(process\)\s+avg [\d.]+ ms/);
+  });
+
   test('format-enforcer completes within 200ms wall clock', async () => {
     const start = performance.now();
     const { exitCode } = await runHook(
@@ -672,6 +2891,245 @@ describe('performance regression', () => {
 // validate-skills.ts
 // ============================================================
 
+describe('eval-skills script', () => {
+  async function runEval(args: string[]) {
+    const proc = Bun.spawn(['bun', join(ROOT, 'scripts/eval-skills.ts'), ...args], {
+      stdout: 'pipe',
+      stderr: 'pipe',
+      env: { ...process.env, CLAUDE_PROJECT_DIR: ROOT },
+    });
+    const exitCode = await proc.exited;
+    return { stdout: await new Response(proc.stdout).text(), exitCode };
+  }
+
+  function makeCorpus(): string {
+    const dir = makeFramework([{
+      skill: 'Deploy',
+      type: 'proactive',
+      enforcement: 'suggest',
+      priority: 5,
+      triggers: { keywords: ['deploy', 'release', 'ship', 'rollout', 'publish'] },
+      suggestion: 'Use Deploy',
+    }]);
+    const corpus = join(dir, 'skills', 'skill-eval-corpus.jsonl');
+    writeFileSync(corpus, [
+      { prompt: 'deploy to production', expected: ['Deploy'] },
+      { prompt: 'ship and publish the new release', expected: ['Deploy'] },
+      { prompt: 'fix the login bug', expected: [] },
+    ].map(c => JSON.stringify(c)).join('\n'));
+    return corpus;
+  }
+
+  test('shipped corpus evaluates against the shipped rules', async () => {
+    const result = await runEval([]);
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('CreateSkill');
+    expect(result.stdout).toContain('micro avg');
+  });
+
+  test('reports per-rule counts and misclassified prompts', async () => {
+    const result = await runEval([makeCorpus()]);
+    expect(result.stdout).toMatch(/Deploy\s+1\s+0\s+1\s+1\.00\s+0\.50\s+0\.67/);
+    expect(result.stdout).toContain('line 1: missed Deploy');
+  });
+
+  test('--tune suggests a threshold that fixes the miss', async () => {
+    const result = await runEval([makeCorpus(), '--tune']);
+    expect(result.stdout).toMatch(/defaults\.threshold: 25 -> \d+\s+\(micro F1 1\.00\)/);
+  });
+
+  test('--min-f1 fails below the bar', async () => {
+    const result = await runEval([makeCorpus(), '--min-f1', '0.9']);
+    expect(result.exitCode).toBe(1);
+    expect(result.stdout).toContain('Eval FAILED');
+  });
+
+  test('--min-skill-f1 fails on one rule even when the average passes', async () => {
+    const result = await runEval([makeCorpus(), '--min-f1', '0.5', '--min-skill-f1', '0.9']);
+    expect(result.exitCode).toBe(1);
+    expect(result.stdout).toContain('Eval FAILED: Deploy F1 0.67 < 0.9');
+  });
+
+  test('--tune sweeps the semantic weight when semantic relevance is on', async () => {
+    const corpus = makeCorpus();
+    const skills = dirname(corpus);
+    const rulesPath = join(skills, 'skill-rules.json');
+    const rules = JSON.parse(readFileSync(rulesPath, 'utf-8'));
+    rules.defaults.weights.semantic = 1;
+    rules.rules.push({ skill: 'Kubernetes', type: 'proactive', enforcement: 'suggest', priority: 5, weights: { semantic: 0 }, triggers: { keywords: ['kubectl'] }, suggestion: 'Use Kubernetes' });
+    writeFileSync(rulesPath, JSON.stringify(rules));
+    for (const [skill, body] of [['Kubernetes', 'Scale pods and replicas across the cluster nodes.'], ['Deploy', 'Ship releases to production.']]) {
+      mkdirSync(join(skills, skill));
+      writeFileSync(join(skills, skill, 'SKILL.md'), `# ${skill}\n${body}\n`);
+    }
+    writeFileSync(corpus, `${readFileSync(corpus, 'utf-8')}\n${JSON.stringify({ prompt: 'scale the pods on every node', expected: ['Kubernetes'] })}`);
+
+    const result = await runEval([corpus, '--tune']);
+    expect(result.stdout).toMatch(/Kubernetes\.weights\.semantic: 0 -> \d+/);
+  });
+});
+
+describe('skill-report script', () => {
+  async function runReport(dir: string, args: string[] = []) {
+    const proc = Bun.spawn(['bun', join(ROOT, 'scripts/skill-report.ts'), ...args], {
+      stdout: 'pipe',
+      stderr: 'pipe',
+      env: { ...process.env, CLAUDE_PROJECT_DIR: dir, CLAUDE_CONFIG_DIR: EMPTY_CONFIG_DIR },
+    });
+    const exitCode = await proc.exited;
+    return { stdout: await new Response(proc.stdout).text(), exitCode };
+  }
+
+  function makeLog(): string {
+    const rule = (skill: string, threshold?: number) => ({
+      skill, type: 'proactive', enforcement: 'suggest', priority: 5, threshold, triggers: { keywords: [skill.toLowerCase()] }, suggestion: skill,
+    });
+    const dir = makeFramework([rule('Deploy'), rule('Docs', 50), rule('Unused')]);
+    const now = Date.now();
+    const record = (ago: number, fields: Record<string, unknown>) => ({
+      ts: new Date(now - ago * 3_600_000).toISOString(), session: 's1', promptHash: '0', candidates: [], selected: [], ms: 10, ...fields,
+    });
+    mkdirSync(join(dir, 'memory', 'telemetry'), { recursive: true });
+    writeFileSync(join(dir, 'memory', 'telemetry', 'skill-eval.jsonl'), [
+      record(48, { selected: [{ skill: 'Deploy', enforcement: 'suggest', score: 80 }], candidates: [{ skill: 'Deploy', score: 80, threshold: 25 }] }),
+      record(1, { selected: [{ skill: 'Deploy', enforcement: 'suggest', score: 60 }], candidates: [{ skill: 'Docs', score: 45, threshold: 50 }], ms: 30 }),
+      record(1, { candidates: [{ skill: 'Docs', score: 20, threshold: 50 }] }),
+      record(1, { excluded: 'prefix "/"' }),
+    ].map(r => JSON.stringify(r)).join('\n') + '\n');
+    return dir;
+  }
+
+  test('summarizes frequency, never-fired rules, near misses and latency', async () => {
+    const { stdout, exitCode } = await runReport(makeLog(), ['--json']);
+    expect(exitCode).toBe(0);
+    const summary = JSON.parse(stdout);
+    expect(summary).toMatchObject({ records: 4, evaluated: 3, excluded: 1, sessions: 1 });
+    expect(summary.activity).toEqual([{ skill: 'Deploy', selected: 2, byEnforcement: { suggest: 2 }, avgScore: 70 }]);
+    expect(summary.neverFired).toEqual([
+      { skill: 'Docs', best: 45, threshold: 50 },
+      { skill: 'Unused', best: null, threshold: 25 },
+    ]);
+    expect(summary.nearMisses).toEqual([{ skill: 'Docs', prompts: 1, closest: 45, threshold: 50, cut: 0 }]);
+    expect(summary.latency).toEqual({ avg: 15, p95: 30, max: 30 });
+  });
+
+  test('--since filters by age; the text report names each section', async () => {
+    const dir = makeLog();
+    const recent = JSON.parse((await runReport(dir, ['--since', '1d', '--json'])).stdout);
+    expect(recent.records).toBe(3);
+
+    const { stdout } = await runReport(dir);
+    expect(stdout).toContain('Activation frequency:');
+    expect(stdout).toContain('no trigger ever matched');
+    expect(stdout).toMatch(/Docs\s+1 prompts \| closest 45 \/ 50/);
+  });
+
+  test('fails without a log', async () => {
+    const result = await runReport(makeFramework([]));
+    expect(result.exitCode).toBe(1);
+  });
+});
+
+describe('generate-rules script', () => {
+  function makeSkills(): string {
+    const dir = makeFramework(
+      [{
+        skill: 'Notes',
+        type: 'proactive',
+        enforcement: 'inject',
+        priority: 9,
+        weights: { keyword: 6 },
+        triggers: { keywords: ['note'], exclude: { keywords: ['idea'] } },
+        suggestion: 'Hand-tuned suggestion',
+      }],
+      {},
+      { intents: { capture: { words: ['capture', 'note'] }, deploy: { words: ['deploy'] } } },
+    );
+    const skill = (name: string, description: string, body = '') => {
+      mkdirSync(join(dir, 'skills', name));
+      writeFileSync(join(dir, 'skills', name, 'SKILL.md'), `---\nname: ${name}\ndescription: ${description}\n---\n\n# ${name}\n${body}`);
+    };
+    skill('Notes', 'Note capture. USE WHEN taking notes, capturing ideas, OR saving memos.', [
+      '## Workflow Routing',
+      '',
+      '| Workflow | Trigger | File |',
+      '|----------|---------|------|',
+      '| **Capture** | "take a note" | `Workflows/Capture.md` |',
+      '',
+    ].join('\n'));
+    skill('Deploy', 'Ship builds to production. USE WHEN deploying services OR rolling back releases.');
+    return join(dir, 'skills');
+  }
+
+  async function generate(args: string[]) {
+    const proc = Bun.spawn(['bun', join(ROOT, 'scripts/generate-rules.ts'), ...args], { stdout: 'pipe', stderr: 'pipe' });
+    const exitCode = await proc.exited;
+    return { stdout: await new Response(proc.stdout).text(), exitCode };
+  }
+
+  test('dry run prints a diff and leaves skill-rules.json alone', async () => {
+    const skillsDir = makeSkills();
+    const before = readFileSync(join(skillsDir, 'skill-rules.json'), 'utf-8');
+
+    const result = await generate([skillsDir]);
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('+ ');
+    expect(result.stdout).toContain('"skill": "Deploy"');
+    expect(result.stdout).toContain('Dry run');
+    expect(readFileSync(join(skillsDir, 'skill-rules.json'), 'utf-8')).toBe(before);
+  });
+
+  test('--write merges proposals without clobbering hand-tuned fields', async () => {
+    const skillsDir = makeSkills();
+    await generate([skillsDir, '--write']);
+    const rules = JSON.parse(readFileSync(join(skillsDir, 'skill-rules.json'), 'utf-8'));
+
+    const notes = rules.rules.find((r: { skill: string }) => r.skill === 'Notes');
+    expect(notes.priority).toBe(9);
+    expect(notes.enforcement).toBe('inject');
+    expect(notes.weights).toEqual({ keyword: 6 });
+    expect(notes.suggestion).toBe('Hand-tuned suggestion');
+    expect(notes.triggers.keywords).toEqual(['note', 'memo']);
+    expect(notes.triggers.patterns).toEqual(['\\btake\\s+a\\s+note\\b']);
+    expect(notes.triggers.intents).toEqual(['capture']);
+
+    const deploy = rules.rules.find((r: { skill: string }) => r.skill === 'Deploy');
+    expect(deploy.suggestion).toBe('Use Deploy for ship builds to production');
+    expect(deploy.triggers.keywords).toEqual(['service', 'release']);
+    expect(deploy.triggers.intents).toEqual(['deploy']);
+
+    const again = await generate([skillsDir]);
+    expect(again.stdout).toContain('No new triggers to propose');
+  });
+
+  test('--write targets the proactive rule when a reactive rule shares the skill', async () => {
+    const skillsDir = makeSkills();
+    const rulesPath = join(skillsDir, 'skill-rules.json');
+    const reactive = (skill: string) => ({
+      skill,
+      type: 'reactive',
+      enforcement: 'suggest',
+      priority: 5,
+      triggers: { tools: ['Bash'], patterns: ['deployed'] },
+      suggestion: `Use ${skill} to review`,
+    });
+    const original = JSON.parse(readFileSync(rulesPath, 'utf-8'));
+    original.rules.unshift(reactive('Notes'), reactive('Deploy'));
+    writeFileSync(rulesPath, JSON.stringify(original));
+
+    await generate([skillsDir, '--write']);
+    const rules = JSON.parse(readFileSync(rulesPath, 'utf-8'));
+
+    const byType = (skill: string, type: string) =>
+      rules.rules.filter((r: { skill: string; type?: string }) => r.skill === skill && (r.type ?? 'proactive') === type);
+    expect(byType('Notes', 'reactive')).toEqual([reactive('Notes')]);
+    expect(byType('Deploy', 'reactive')).toEqual([reactive('Deploy')]);
+    expect(byType('Notes', 'proactive')[0].triggers.keywords).toEqual(['note', 'memo']);
+    expect(byType('Deploy', 'proactive')).toHaveLength(1);
+    expect(byType('Deploy', 'proactive')[0].triggers.intents).toEqual(['deploy']);
+  });
+});
+
 describe('validate-skills script', () => {
   test('validation passes for current skills', async () => {
     const proc = Bun.spawn(['bun', join(ROOT, 'scripts/validate-skills.ts')], {
@@ -683,4 +3141,41 @@ describe('validate-skills script', () => {
     const exitCode = await proc.exited;
     expect(exitCode).toBe(0);
   });
+
+  test('unknown intent references fail validation', async () => {
+    const dir = makeFramework([{
+      skill: 'Incident',
+      type: 'proactive',
+      triggers: { intents: ['incident'] },
+      suggestion: 'Use Incident',
+    }]);
+    const proc = Bun.spawn(['bun', join(ROOT, 'scripts/validate-skills.ts'), join(dir, 'skills')], {
+      stdout: 'pipe',
+      stderr: 'pipe',
+    });
+
+    const exitCode = await proc.exited;
+    const stdout = await new Response(proc.stdout).text();
+    expect(exitCode).toBe(1);
+    expect(stdout).toContain('unknown intent "incident"');
+  });
+
+  test('invalid rule and exclusion patterns fail validation', async () => {
+    const dir = makeFramework([{
+      skill: 'Deploy',
+      type: 'proactive',
+      triggers: { patterns: ['(unclosed'], contentPatterns: ['ok'] },
+      suggestion: 'Use Deploy',
+    }], {}, { exclusions: { prefixes: [], patterns: ['[z-a]'] } });
+    const proc = Bun.spawn(['bun', join(ROOT, 'scripts/validate-skills.ts'), join(dir, 'skills')], {
+      stdout: 'pipe',
+      stderr: 'pipe',
+    });
+
+    const exitCode = await proc.exited;
+    const stdout = await new Response(proc.stdout).text();
+    expect(exitCode).toBe(1);
+    expect(stdout).toContain('Rule "Deploy" has an invalid pattern: (unclosed');
+    expect(stdout).toContain('exclusions.patterns has an invalid pattern: [z-a]');
+  });
 });